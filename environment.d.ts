@@ -5,15 +5,43 @@ declare global {
       DB_HOST: string;
       DB_EMAIL: string;
       DB_PASSWORD: string;
+      STORAGE_BACKEND?: 'pocketbase' | 'sqlite';
+      SQLITE_PATH?: string;
       MAINNET_CHAIN_INDEX_BASE_URL: string;
       PREVIEW_CHAIN_INDEX_BASE_URL: string;
       DISCORD_WEBHOOK_URL: string;
       PRIMARY_ARWEAVE_ENDPOINT: string;
       SECONDARY_ARWEAVE_ENDPOINT: string;
+      ARWEAVE_GATEWAYS?: string;
+      ARWEAVE_GATEWAY_CONCURRENCY?: string;
+      ARWEAVE_GATEWAY_MAX_FAILURES?: string;
+      ARWEAVE_GATEWAY_EJECT_MINUTES?: string;
+      ARWEAVE_FETCH_TIMEOUT_MS?: string;
+      ARCHIVE_CACHE_DIR?: string;
+      ARCHIVE_CACHE_MAX_MB?: string;
+      ARCHIVE_CACHE_ONLY?: string;
+      ARCHIVE_MAX_SIZE_MB?: string;
+      ARCHIVE_MAX_ENTRY_SIZE_MB?: string;
       PRIVATE_XERBERUS_API_KEY: string;
       PRIVATE_XERBERUS_USER_EMAIL: string;
       ARCHIVE_RETRY_HOURS: string;
-      ARCHIVE_AGE_THRESHOLD_MINUTES?: string;
+      ARCHIVE_RETRY_BASE_MINUTES?: string;
+      ARCHIVE_RETRY_MAX_HOURS?: string;
+      ARCHIVE_MAX_ATTEMPTS?: string;
+      ARCHIVE_BACKFILL_WINDOW_HOURS?: string;
+      ARCHIVE_BACKFILL_BATCH_SIZE?: string;
+      ARCHIVE_BACKFILL_BATCH_DELAY_MS?: string;
+      ARCHIVE_BACKFILL_CONCURRENCY?: string;
+      RECONCILIATION_VALUE_TOLERANCE?: string;
+      SOURCE_OUTLIER_THRESHOLD?: string;
+      ARWEAVE_GRAPHQL_ENDPOINT?: string;
+      ARWEAVE_RATE_LIMIT_BACKOFF_MS?: string;
+      ARCHIVE_DISCOVERY_MAX_AGE_DAYS?: string;
+      PORT?: string;
+      SYNC_STALL_MINUTES?: string;
+      ROLLBACK_WINDOW_SLOTS?: string;
+      KUPO_STREAM_BATCH_SIZE?: string;
+      KUPO_RECORD_DIR?: string;
     }
   }
 }
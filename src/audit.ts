@@ -0,0 +1,132 @@
+import { getChainIndexProvider } from './chain-index.js';
+import { getMatchPolicy, parseAndIndexMatches } from './indexer.js';
+import { getFactsBetweenSlots, getFactsByTransactionIds } from './db.js';
+import { indexArchives } from './util/archives.js';
+import { slotAfterTimePeriod, slotToDate } from './util/network.js';
+import { FactStatement, IndexAuditReport, KupoMatch, KupoMatchesByTransaction, Network } from './util/types.js';
+
+// Compare the facts indexed for a slot range with the chain index's matches, a day and a policy at a time. Matches
+// without a fact are missing, and are re-indexed with reindex. Facts without a match are extra, and facts whose
+// block, slot or policy differ from their match are mismatched.
+export async function auditIndex(
+  network: Network,
+  options: { fromSlot: number; toSlot: number; reindex?: boolean }
+): Promise<IndexAuditReport> {
+  const chainIndex = getChainIndexProvider(network);
+  const report: IndexAuditReport = {
+    network: network.name,
+    from_slot: options.fromSlot,
+    to_slot: options.toSlot,
+    days: [],
+    missing: [],
+    extra: [],
+    mismatched: [],
+    reindexed_transactions: 0
+  };
+
+  // Facts are only reported as extra once every match has been seen, so window boundaries don't matter
+  const matchedOutputs = new Set<string>();
+  const unmatchedFacts: FactStatement[] = [];
+
+  for (let currentSlot = options.fromSlot; currentSlot < options.toSlot; ) {
+    const queryEndSlot = Math.min(slotAfterTimePeriod(currentSlot, 'day', network), options.toSlot);
+
+    for (const policy of network.policies) {
+      const response = await chainIndex.getMatches(policy, {
+        lastBlockHash: null,
+        lastCheckpointSlot: null,
+        queryParams: {
+          order: 'oldest_first',
+          created_after: currentSlot.toString(),
+          created_before: queryEndSlot.toString()
+        }
+      });
+      if (response === null)
+        throw new Error(`Unable to fetch ${network.name} matches for slots ${currentSlot} to ${queryEndSlot}`);
+
+      const matches = [...response.transactions.values()].flat();
+      const factsByOutput = new Map(
+        (await getFactsByTransactionIds(network, [...response.transactions.keys()])).map((fact) => [
+          getOutputKey(fact.transaction_id, fact.output_index),
+          fact
+        ])
+      );
+      const missingTransactions: KupoMatchesByTransaction = new Map();
+      let missingCount = 0;
+
+      for (const match of matches) {
+        const outputKey = getOutputKey(match.transaction_id, match.output_index);
+        matchedOutputs.add(outputKey);
+
+        const fact = factsByOutput.get(outputKey);
+        if (!fact) {
+          missingCount++;
+          report.missing.push({
+            transaction_id: match.transaction_id,
+            output_index: match.output_index,
+            slot: match.created_at.slot_no,
+            policy_id: policy.policy_id
+          });
+          missingTransactions.set(match.transaction_id, response.transactions.get(match.transaction_id) ?? []);
+          continue;
+        }
+
+        const fields = getMismatchedFields(network, fact, match);
+        if (fields.length > 0) {
+          report.mismatched.push({
+            fact_urn: fact.fact_urn,
+            transaction_id: fact.transaction_id,
+            output_index: fact.output_index,
+            fields
+          });
+        }
+      }
+
+      report.days.push({
+        day: slotToDate(currentSlot, network),
+        policy_id: policy.policy_id,
+        on_chain_count: matches.length,
+        indexed_count: matches.length - missingCount
+      });
+
+      if (options.reindex && missingTransactions.size > 0) {
+        console.info(`Re-indexing ${missingTransactions.size} missing ${network.name} transactions...`);
+        const indexed = await parseAndIndexMatches(network, missingTransactions);
+        report.reindexed_transactions += missingTransactions.size;
+
+        // The archive backfill's cursor may already be past these facts, so their archives are indexed here
+        const unarchived = indexed.filter((fact) => !fact.is_archive_indexed);
+        if (network.is_archive_enabled) await indexArchives(network, unarchived);
+      }
+    }
+
+    const facts = await getFactsBetweenSlots(network, currentSlot, queryEndSlot);
+    unmatchedFacts.push(
+      ...facts.filter((fact) => !matchedOutputs.has(getOutputKey(fact.transaction_id, fact.output_index)))
+    );
+    currentSlot = queryEndSlot;
+  }
+
+  report.extra = unmatchedFacts
+    .filter((fact) => !matchedOutputs.has(getOutputKey(fact.transaction_id, fact.output_index)))
+    .map((fact) => ({
+      fact_urn: fact.fact_urn,
+      transaction_id: fact.transaction_id,
+      output_index: fact.output_index,
+      slot: fact.slot
+    }));
+
+  return report;
+}
+
+function getMismatchedFields(network: Network, fact: FactStatement, match: KupoMatch): string[] {
+  const fields: string[] = [];
+  if (fact.block_hash !== match.created_at.header_hash) fields.push('block_hash');
+  if (fact.slot !== match.created_at.slot_no) fields.push('slot');
+  if (fact.policy !== getMatchPolicy(network, match).id) fields.push('policy');
+  return fields;
+}
+
+function getOutputKey(transactionId: string, outputIndex: number) {
+  return `${transactionId}#${outputIndex}`;
+}
@@ -0,0 +1,13 @@
+import { createKupoProvider } from './kupo.js';
+import { ChainIndexProvider, ChainIndexProviderType, DBNetwork } from './util/types.js';
+
+const providerFactories: Record<ChainIndexProviderType, (network: DBNetwork) => ChainIndexProvider> = {
+  kupo: createKupoProvider
+};
+
+// Get the chain index provider configured for a network via its chain_index_provider field
+export function getChainIndexProvider(network: DBNetwork): ChainIndexProvider {
+  const createProvider = providerFactories[network.chain_index_provider];
+  if (!createProvider) throw new Error(`Unsupported chain index provider: ${network.chain_index_provider}`);
+  return createProvider(network);
+}
@@ -0,0 +1,617 @@
+#!/usr/bin/env node
+/**
+ * Operator CLI for the Explorer Index. Runs maintenance tasks against the storage backend and chain index configured
+ * in .env (STORAGE_BACKEND and DB_* or SQLITE_PATH, and the chain index URLs), without starting the cron jobs.
+ *
+ * Usage:
+ *   explorer-index <command> [options]      # from a build, or node build/cli.js
+ *   pnpm cli <command> [options]            # from a checkout
+ */
+
+import 'dotenv/config';
+import { writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import { dateToSlot } from './util/network.js';
+import { Network } from './util/types.js';
+
+// Modules that use the logger or storage are imported by the commands that need them. The logger requires
+// DISCORD_WEBHOOK_URL and NODE_ENV on import, which --help and usage errors shouldn't depend on
+
+const USAGE = `Usage: explorer-index <command> [options]
+
+Commands:
+  status                              Checkpoint, active policy, fact counts and job states of every network
+  sync                                Run one sync cycle: feeds, checkpoint, policy change, facts and archives
+  populate [--force]                  Populate an empty index from the chain index
+  drop --yes                          Delete the network's index, keeping its policies, nodes and sources
+  archives reindex [<fact_urn>...]    Index the archives of the given facts, or of every unarchived fact
+                   [--force]          Also index unarchived facts whose archive retry isn't due yet
+  archives test [<fact_urn>]          Fetch and index one archive with verbose output, the oldest unarchived by default
+                [--probe]             Also fetch the archive from every Arweave gateway
+  archives requeue [<fact_urn>...]    Requeue the given facts, or every given up fact, for an archive retry
+  export unarchived [--output <file>] Write the unarchived facts and a summary to a JSON file
+  audit [<range>] [--reindex]         Compare the index with the chain index, re-indexing missing facts with --reindex
+  reindex <range> [--policy <policy_id>] [--feed <feed_id>] [--replace] [--dry-run]
+                                      Re-run ingestion for a range without moving the network checkpoint
+  policies repair [--dry-run]         Fix facts attributed to the wrong policy
+  kupo stand-in <fixtures.jsonl> [--port <port>]
+                                      Serve recorded Kupo responses, the port defaults to 1442
+
+Ranges are --from <date> or --from-slot <slot>, up to --to <date> or --to-slot <slot> (default now).
+
+Options:
+  --network <name>  Network to run the command for, defaults to Mainnet (status reports every network by default)
+  --json            Print the result as JSON on stdout, with progress logs on stderr
+  --help            Show this help`;
+
+// An expected failure, printed without a stack trace
+class CliError extends Error {}
+
+function parseCliArgs() {
+  return parseArgs({
+    options: {
+      network: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      yes: { type: 'boolean', default: false },
+      probe: { type: 'boolean', default: false },
+      output: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      'from-slot': { type: 'string' },
+      'to-slot': { type: 'string' },
+      policy: { type: 'string' },
+      feed: { type: 'string' },
+      replace: { type: 'boolean', default: false },
+      reindex: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      port: { type: 'string' }
+    },
+    allowPositionals: true
+  });
+}
+
+type CliValues = ReturnType<typeof parseCliArgs>['values'];
+
+interface CommandContext {
+  values: CliValues;
+  // Positionals after the command name
+  args: string[];
+}
+
+const commands: Record<string, (context: CommandContext) => Promise<void>> = {
+  status: runStatus,
+  sync: runSync,
+  populate: runPopulate,
+  drop: runDrop,
+  'archives reindex': runArchivesReindex,
+  'archives test': runArchivesTest,
+  'archives requeue': runArchivesRequeue,
+  'export unarchived': runExportUnarchived,
+  audit: runAudit,
+  reindex: runReindex,
+  'policies repair': runPoliciesRepair,
+  'kupo stand-in': runKupoStandIn
+};
+
+let isJsonOutput = false;
+
+// Print a command's result as JSON with --json, or as text otherwise
+function printResult(result: unknown, printText: () => void) {
+  if (isJsonOutput) process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  else printText();
+}
+
+async function getNetwork(values: CliValues): Promise<Network> {
+  const { getNetworkByName } = await import('./db.js');
+  const name = values.network ?? 'Mainnet';
+  const network = await getNetworkByName(name);
+  if (!network) throw new CliError(`Network not found: ${name}`);
+  return network;
+}
+
+function getSlotRange(values: CliValues, network: Network, defaultFromSlot?: number) {
+  const fromSlot = values['from-slot']
+    ? Number(values['from-slot'])
+    : values.from
+      ? dateToSlot(new Date(values.from), network)
+      : (defaultFromSlot ?? NaN);
+  const toSlot = values['to-slot']
+    ? Number(values['to-slot'])
+    : dateToSlot(values.to ? new Date(values.to) : new Date(), network);
+  if (!Number.isInteger(fromSlot) || !Number.isInteger(toSlot) || fromSlot >= toSlot) {
+    throw new CliError(`Invalid range, pass --from or --from-slot before --to or --to-slot: ${fromSlot} to ${toSlot}`);
+  }
+  return { fromSlot, toSlot };
+}
+
+async function getNetworkStatus(network: Network) {
+  const { getIndexCounts, getJobStates } = await import('./db.js');
+  const activePolicy = [...network.policies].sort((a, b) => b.starting_slot - a.starting_slot)[0];
+  return {
+    name: network.name,
+    is_enabled: network.is_enabled,
+    is_archive_enabled: network.is_archive_enabled,
+    last_checkpoint_slot: network.last_checkpoint_slot,
+    last_block_hash: network.last_block_hash,
+    chain_lag_slots: network.last_checkpoint_slot
+      ? dateToSlot(new Date(), network) - network.last_checkpoint_slot
+      : null,
+    active_policy: activePolicy
+      ? {
+          policy_id: activePolicy.policy_id,
+          starting_slot: activePolicy.starting_slot,
+          starting_date: activePolicy.starting_date
+        }
+      : null,
+    ...(await getIndexCounts(network)),
+    jobs: (await getJobStates(network)).map((jobState) => ({
+      job: jobState.job,
+      status: jobState.status,
+      cursor_date: jobState.cursor_date,
+      processed_count: jobState.processed_count,
+      indexed_count: jobState.indexed_count,
+      failed_count: jobState.failed_count,
+      last_error: jobState.last_error,
+      last_run_at: jobState.last_run_at
+    }))
+  };
+}
+
+async function runStatus({ values }: CommandContext) {
+  const { getAllNetworks } = await import('./db.js');
+  const networks = values.network ? [await getNetwork(values)] : await getAllNetworks();
+  const statuses = await Promise.all(networks.map(getNetworkStatus));
+
+  printResult({ networks: statuses }, () => {
+    for (const status of statuses) {
+      console.log(
+        `\n${status.name} (${status.is_enabled ? 'enabled' : 'disabled'}, archives ${status.is_archive_enabled ? 'enabled' : 'disabled'})`
+      );
+      console.log(
+        `  Checkpoint:       slot ${status.last_checkpoint_slot}${status.chain_lag_slots !== null ? ` (${status.chain_lag_slots} slots behind)` : ''}, block ${status.last_block_hash || '(none)'}`
+      );
+      console.log(
+        `  Active policy:    ${status.active_policy ? `${status.active_policy.policy_id} since slot ${status.active_policy.starting_slot}` : '(none)'}`
+      );
+      console.log(
+        `  Facts:            ${status.facts} (${status.unarchived_facts} unarchived, ${status.facts_without_archive} without an archive)`
+      );
+      console.log(
+        `  Archive retries:  ${status.pending_archive_retries} pending, ${status.gave_up_archive_retries} given up`
+      );
+      for (const job of status.jobs) {
+        console.log(
+          `  ${`${job.job}:`.padEnd(18)}${job.status}, cursor ${job.cursor_date?.toISOString() ?? '(none)'}, ${job.indexed_count} of ${job.processed_count} indexed, ${job.failed_count} failed${job.last_error ? ` (${job.last_error})` : ''}`
+        );
+      }
+    }
+  });
+}
+
+async function runSync({ values }: CommandContext) {
+  const { isIndexEmpty } = await import('./db.js');
+  const { syncNetwork } = await import('./cron.js');
+  const network = await getNetwork(values);
+  if (await isIndexEmpty(network)) throw new CliError(`The ${network.name} index is empty, populate it first`);
+
+  const startedAt = Date.now();
+  await syncNetwork(network);
+
+  const result = {
+    network: network.name,
+    last_checkpoint_slot: network.last_checkpoint_slot,
+    last_block_hash: network.last_block_hash,
+    duration_ms: Date.now() - startedAt
+  };
+  printResult(result, () => {
+    console.log(`\nSynced ${network.name} up to slot ${result.last_checkpoint_slot} in ${result.duration_ms}ms.`);
+  });
+}
+
+async function runPopulate({ values }: CommandContext) {
+  const { getIndexCounts, isIndexEmpty } = await import('./db.js');
+  const { populateIndex } = await import('./indexer.js');
+  const network = await getNetwork(values);
+  if (!values.force && !(await isIndexEmpty(network))) {
+    throw new CliError(`The ${network.name} index isn't empty, pass --force to populate it anyway`);
+  }
+
+  await populateIndex(network);
+
+  const populated = await getNetwork(values);
+  const { facts } = await getIndexCounts(network);
+  const result = { network: network.name, facts, last_checkpoint_slot: populated.last_checkpoint_slot };
+  printResult(result, () => {
+    console.log(`\n${network.name} has ${facts} facts, checkpoint at slot ${result.last_checkpoint_slot}.`);
+  });
+}
+
+async function runDrop({ values }: CommandContext) {
+  const { deleteIndex, getIndexCounts } = await import('./db.js');
+  const network = await getNetwork(values);
+  if (!values.yes) throw new CliError(`This deletes the whole ${network.name} index, pass --yes to confirm`);
+
+  const { facts } = await getIndexCounts(network);
+  await deleteIndex(network);
+  const { facts: remainingFacts } = await getIndexCounts(network);
+
+  const result = { network: network.name, deleted_facts: facts - remainingFacts, remaining_facts: remainingFacts };
+  printResult(result, () => {
+    console.log(`\nDeleted ${result.deleted_facts} ${network.name} facts, ${remainingFacts} remaining.`);
+  });
+  if (remainingFacts > 0) process.exitCode = 1;
+}
+
+async function runArchivesReindex({ values, args }: CommandContext) {
+  const { getFactsByUrns, getUnarchivedFactsBetween } = await import('./db.js');
+  const { indexArchives } = await import('./util/archives.js');
+  const network = await getNetwork(values);
+
+  // Facts passed by URN are indexed whatever their archive state or retry schedule
+  const facts = args.length
+    ? await getFactsByUrns(network, args)
+    : await getUnarchivedFactsBetween(network, new Date(0), new Date());
+  const missingUrns = args.filter((factUrn) => !facts.some((fact) => fact.fact_urn === factUrn));
+  if (missingUrns.length) throw new CliError(`Facts not found: ${missingUrns.join(', ')}`);
+  const withoutArchive = facts.filter((fact) => !fact.storage_urn);
+  if (withoutArchive.length) {
+    throw new CliError(`Facts without an archive: ${withoutArchive.map((fact) => fact.fact_urn).join(', ')}`);
+  }
+
+  const summary = await indexArchives(network, facts, { force: values.force || args.length > 0 });
+
+  const result = { network: network.name, facts: facts.length, ...summary };
+  printResult(result, () => {
+    console.log(
+      `\nIndexed ${summary.indexed} of ${facts.length} ${network.name} archives, ${summary.failed} failed (${summary.unverified} failed verification).`
+    );
+  });
+  if (summary.failed > 0) process.exitCode = 1;
+}
+
+interface GatewayProbe {
+  gateway: string;
+  duration_ms: number;
+  files: number | null;
+  file_errors: number | null;
+  error: string | null;
+}
+
+// Fetch an archive from a gateway, bypassing the gateway pool and the archive cache
+async function probeArweaveGateway(gateway: string, transactionId: string): Promise<GatewayProbe> {
+  const { fetchArchive } = await import('./util/archives.js');
+  const startedAt = Date.now();
+  try {
+    const { files, fileErrors } = await fetchArchive(gateway, transactionId);
+    return {
+      gateway,
+      duration_ms: Date.now() - startedAt,
+      files: files.length,
+      file_errors: fileErrors.length,
+      error: null
+    };
+  } catch (error) {
+    return {
+      gateway,
+      duration_ms: Date.now() - startedAt,
+      files: null,
+      file_errors: null,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+async function runArchivesTest({ values, args }: CommandContext) {
+  const { getArchiveRetries, getFactsByUrns, getOldestUnarchivedFact } = await import('./db.js');
+  const { getArchiveFiles, indexArchives } = await import('./util/archives.js');
+  const { getTransactionId } = await import('./util/archive-cache.js');
+  const { getArweaveGateways } = await import('./util/arweave-gateways.js');
+  const network = await getNetwork(values);
+  const fact = args[0] ? (await getFactsByUrns(network, [args[0]]))[0] : await getOldestUnarchivedFact(network);
+  if (!fact) throw new CliError(args[0] ? `Fact not found: ${args[0]}` : 'No unarchived facts found.');
+  if (!fact.storage_urn) throw new CliError(`Fact ${fact.fact_urn} has no archive`);
+
+  const transactionId = getTransactionId(fact.storage_urn);
+  const gateways = getArweaveGateways(network);
+
+  const probes: GatewayProbe[] = [];
+  if (values.probe) {
+    for (const gateway of gateways) {
+      probes.push(await probeArweaveGateway(gateway, transactionId));
+    }
+  }
+
+  const archive = await getArchiveFiles(network, fact);
+  await indexArchives(network, [fact], { force: true, archives: new Map([[fact.id, archive]]) });
+
+  const [indexed] = await getFactsByUrns(network, [fact.fact_urn]);
+  const [retry] = await getArchiveRetries([fact]);
+
+  const result = {
+    network: network.name,
+    fact_urn: fact.fact_urn,
+    storage_urn: fact.storage_urn,
+    transaction_id: transactionId,
+    gateways,
+    probes,
+    archive: {
+      endpoint: archive.endpoint,
+      error: archive.files === null ? archive.error : null,
+      files: (archive.files ?? []).map(({ name, extension, size }) => ({ name, extension, size })),
+      file_errors: archive.files === null ? [] : archive.fileErrors
+    },
+    fact: indexed
+      ? {
+          is_archive_indexed: indexed.is_archive_indexed,
+          archive_verification_status: indexed.archive_verification_status,
+          archive_verification_error: indexed.archive_verification_error,
+          content_signature: indexed.content_signature,
+          collection_date: indexed.collection_date,
+          sources: indexed.sources,
+          participating_nodes: indexed.participating_nodes
+        }
+      : null,
+    retry: retry
+      ? {
+          status: retry.status,
+          attempt_count: retry.attempt_count,
+          next_attempt_at: retry.next_attempt_at,
+          last_error: retry.last_error,
+          last_endpoint: retry.last_endpoint
+        }
+      : null
+  };
+
+  printResult(result, () => {
+    console.log(`\nNetwork:          ${result.network}`);
+    console.log(`Arweave gateways: ${gateways.length ? gateways.join(', ') : '(none configured)'}`);
+    console.log(`Fact URN:         ${result.fact_urn}`);
+    console.log(`Storage URN:      ${result.storage_urn}`);
+    console.log(`Tx ID:            ${result.transaction_id}`);
+
+    if (values.probe) {
+      console.log('\n--- Gateways ---');
+      for (const probe of probes) {
+        console.log(
+          `  ${probe.gateway}: ${probe.error ?? `${probe.files} file(s), ${probe.file_errors} skipped`} (${probe.duration_ms}ms)`
+        );
+      }
+    }
+
+    console.log(`\n--- Archive (via ${result.archive.endpoint || '(none)'}) ---`);
+    if (result.archive.error) console.log(`Error: ${result.archive.error}`);
+    for (const file of result.archive.files) {
+      console.log(`  ${file.name} (${file.extension}, ${file.size} bytes)`);
+    }
+    for (const fileError of result.archive.file_errors) {
+      console.log(`  Skipped ${fileError.name} (${fileError.reason}): ${fileError.message}`);
+    }
+    const validationFile = result.archive.files.find((file) => file.name.includes('validation-'));
+    console.log(`Validation file:  ${validationFile?.name ?? '(not found)'}`);
+    console.log(`Message files:    ${result.archive.files.filter((file) => file.name.includes('message-')).length}`);
+
+    console.log('\n--- Result ---');
+    if (!result.fact) {
+      console.log(`Fact ${fact.fact_urn} no longer exists.`);
+      return;
+    }
+    console.log(`is_archive_indexed: ${result.fact.is_archive_indexed}`);
+    console.log(
+      `verification:       ${result.fact.archive_verification_status || '(none)'}${result.fact.archive_verification_error ? ` (${result.fact.archive_verification_error})` : ''}`
+    );
+    console.log(`content_signature:  ${result.fact.content_signature}`);
+    console.log(`collection_date:    ${result.fact.collection_date}`);
+    console.log(`sources:            ${JSON.stringify(result.fact.sources)}`);
+    console.log(`nodes:              ${JSON.stringify(result.fact.participating_nodes)}`);
+    if (result.retry) {
+      console.log(
+        `retry:              ${result.retry.status}, ${result.retry.attempt_count} attempts, next at ${result.retry.next_attempt_at.toISOString()}`
+      );
+      console.log(`last error:         ${result.retry.last_error} (${result.retry.last_endpoint})`);
+    }
+  });
+  if (!result.fact?.is_archive_indexed) process.exitCode = 1;
+}
+
+async function runArchivesRequeue({ values, args }: CommandContext) {
+  const { requeueArchiveRetries } = await import('./db.js');
+  const network = await getNetwork(values);
+  const requeued = await requeueArchiveRetries(network, args.length ? args : undefined);
+
+  printResult({ network: network.name, requeued: requeued.map((retry) => retry.fact_urn) }, () => {
+    console.log(`Requeued ${requeued.length} ${network.name} archive retries.`);
+    for (const retry of requeued) {
+      console.log(`  ${retry.fact_urn}`);
+    }
+  });
+}
+
+async function runExportUnarchived({ values }: CommandContext) {
+  const { fetchFeeds, getUnarchivedFactsBetween } = await import('./db.js');
+  const network = await getNetwork(values);
+  const outputFile = resolve(values.output ?? `${network.name.toLowerCase()}-unarchived-facts.json`);
+
+  const facts = (await getUnarchivedFactsBetween(network, new Date(0), new Date())).sort(
+    (a, b) => a.validation_date.getTime() - b.validation_date.getTime()
+  );
+  const feeds = await fetchFeeds(network);
+  const feedNameById = new Map(feeds.map((feed) => [feed.id, feed.name]));
+
+  const byDay: Record<string, number> = {};
+  const byFeed: Record<string, number> = {};
+  for (const fact of facts) {
+    const date = fact.validation_date.toISOString().slice(0, 10); // YYYY-MM-DD
+    byDay[date] = (byDay[date] ?? 0) + 1;
+    const feedName = feedNameById.get(fact.feed) ?? fact.feed ?? 'unknown';
+    byFeed[feedName] = (byFeed[feedName] ?? 0) + 1;
+  }
+
+  // Facts are sorted by validation date, so the first and last give the date range
+  const summary = {
+    total: facts.length,
+    date_range: {
+      earliest: facts[0]?.validation_date.toISOString().slice(0, 10) ?? null,
+      latest: facts[facts.length - 1]?.validation_date.toISOString().slice(0, 10) ?? null
+    },
+    by_day: byDay,
+    by_feed: byFeed,
+    exported_at: new Date().toISOString()
+  };
+  await writeFile(outputFile, JSON.stringify({ summary, facts }, null, 2));
+
+  printResult({ network: network.name, output_file: outputFile, summary }, () => {
+    console.log(`Found ${facts.length} unarchived ${network.name} facts.`);
+    console.log(`Written to ${outputFile}`);
+  });
+}
+
+async function runAudit({ values }: CommandContext) {
+  const { auditIndex } = await import('./audit.js');
+  const network = await getNetwork(values);
+  const { fromSlot, toSlot } = getSlotRange(
+    values,
+    network,
+    Math.min(...network.policies.map((policy) => policy.starting_slot))
+  );
+
+  const report = await auditIndex(network, { fromSlot, toSlot, reindex: values.reindex });
+
+  printResult(report, () => {
+    console.log(`\n--- ${network.name} audit, slots ${fromSlot} to ${toSlot} ---`);
+    for (const day of report.days.filter((day) => day.on_chain_count !== day.indexed_count)) {
+      console.log(
+        `  ${day.day.toISOString().slice(0, 10)} ${day.policy_id}: ${day.indexed_count} of ${day.on_chain_count} indexed`
+      );
+    }
+
+    const onChainCount = report.days.reduce((count, day) => count + day.on_chain_count, 0);
+    console.log(`On chain:   ${onChainCount}`);
+    console.log(`Missing:    ${report.missing.length}`);
+    for (const missing of report.missing) {
+      console.log(`  ${missing.transaction_id}#${missing.output_index} (slot ${missing.slot}, ${missing.policy_id})`);
+    }
+    console.log(`Extra:      ${report.extra.length}`);
+    for (const extra of report.extra) {
+      console.log(`  ${extra.fact_urn} ${extra.transaction_id}#${extra.output_index} (slot ${extra.slot})`);
+    }
+    console.log(`Mismatched: ${report.mismatched.length}`);
+    for (const mismatched of report.mismatched) {
+      console.log(
+        `  ${mismatched.fact_urn} ${mismatched.transaction_id}#${mismatched.output_index}: ${mismatched.fields.join(', ')}`
+      );
+    }
+    if (values.reindex) console.log(`Re-indexed ${report.reindexed_transactions} transactions.`);
+  });
+
+  if (report.missing.length || report.extra.length || report.mismatched.length) process.exitCode = 1;
+}
+
+async function runReindex({ values }: CommandContext) {
+  const { reindexRange } = await import('./reindex.js');
+  const network = await getNetwork(values);
+  const { fromSlot, toSlot } = getSlotRange(values, network);
+
+  const dryRun = values['dry-run'];
+  console.info(
+    `${dryRun ? 'Previewing' : values.replace ? 'Replacing' : 'Reindexing'} ${network.name} facts for slots ${fromSlot} to ${toSlot}${values.policy ? `, policy ${values.policy}` : ''}${values.feed ? `, feed ${values.feed}` : ''}...`
+  );
+
+  const summary = await reindexRange(network, {
+    fromSlot,
+    toSlot,
+    policyId: values.policy,
+    feedId: values.feed,
+    replace: values.replace,
+    dryRun
+  });
+
+  printResult({ network: network.name, from_slot: fromSlot, to_slot: toSlot, dry_run: dryRun, ...summary }, () => {
+    console.log(`\nMatches on chain: ${summary.matches}${values.feed ? ' (all feeds)' : ''}`);
+    console.log(`Existing facts:   ${summary.existing_facts}${dryRun && values.replace ? ' (would be replaced)' : ''}`);
+    if (!dryRun) {
+      console.log(`Deleted facts:    ${summary.deleted_facts}`);
+      console.log(`Indexed facts:    ${summary.indexed_facts}`);
+      console.log(`Indexed archives: ${summary.indexed_archives}`);
+    }
+  });
+}
+
+async function runPoliciesRepair({ values }: CommandContext) {
+  const { repairFactPolicies } = await import('./indexer.js');
+  const network = await getNetwork(values);
+  const dryRun = values['dry-run'];
+  const { checked, repaired } = await repairFactPolicies(network, { dryRun });
+
+  const result = {
+    network: network.name,
+    dry_run: dryRun,
+    checked,
+    repaired: repaired.map(({ fact, policy }) => ({ fact_urn: fact.fact_urn, policy_id: policy.policy_id }))
+  };
+  printResult(result, () => {
+    console.log(`\nChecked ${checked} ${network.name} facts.`);
+    console.log(`${dryRun ? 'Would repair' : 'Repaired'} the policy of ${repaired.length} facts:`);
+    for (const { fact_urn, policy_id } of result.repaired) {
+      console.log(`  ${fact_urn} -> ${policy_id}`);
+    }
+  });
+}
+
+// Runs until stopped. Record fixtures by starting the indexer with KUPO_RECORD_DIR set
+async function runKupoStandIn({ values, args }: CommandContext) {
+  const { createKupoStandIn, loadKupoExchanges } = await import('./util/kupo-fixtures.js');
+  const fixturesFile = args[0];
+  if (!fixturesFile) throw new CliError('Pass the fixtures file: kupo stand-in <fixtures.jsonl> [--port <port>]');
+  const port = Number(values.port) || 1442;
+
+  const exchanges = await loadKupoExchanges(resolve(fixturesFile));
+  createKupoStandIn(exchanges).listen(port, () => {
+    printResult({ url: `http://localhost:${port}`, exchanges: exchanges.length }, () => {
+      console.log(`Loaded ${exchanges.length} recorded Kupo exchanges from ${fixturesFile}.`);
+      console.log(`Kupo stand-in listening on http://localhost:${port}`);
+    });
+  });
+}
+
+async function main() {
+  let parsed;
+  try {
+    parsed = parseCliArgs();
+  } catch (error) {
+    console.error(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+  const { values, positionals } = parsed;
+
+  // Keep stdout for the result, the indexer's progress logs go to stderr
+  if (values.json) {
+    isJsonOutput = true;
+    console.log = console.error;
+    console.info = console.error;
+  }
+
+  const [group = '', subcommand = ''] = positionals;
+  const name = `${group} ${subcommand}` in commands ? `${group} ${subcommand}` : group;
+  const command = commands[name];
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (!command) {
+    console.error(`${positionals.length ? `Unknown command: ${positionals.join(' ')}\n\n` : ''}${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  await command({ values, args: positionals.slice(name.split(' ').length) });
+}
+
+main().catch((error) => {
+  if (error instanceof CliError) console.error(error.message);
+  else console.error('Unhandled error:', error);
+  process.exit(1);
+});
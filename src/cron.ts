@@ -1,17 +1,77 @@
 import { CronJob } from 'cron';
 import { syncFeeds } from './util/feeds.js';
 import { logError } from './util/logger.js';
+import { syncDuration } from './util/metrics.js';
 import { indexArchives } from './util/archives.js';
+import { backfillArchives } from './util/archive-backfill.js';
+import { discoverArchives } from './util/archive-discovery.js';
 import { ActiveFeeds, Network } from './util/types.js';
+import { markSyncFailed, markSyncStarted, markSyncSucceeded } from './util/status.js';
 import { getAllUnarchivedFacts, getLastIndexedFact } from './db.js';
-import { getOrCreateLatestPolicy, syncFactStatements } from './kupo.js';
+import { getOrCreateLatestPolicy, syncFactStatements, verifyChainCheckpoint } from './indexer.js';
 import { updateXerberusRiskRatingSupport } from './util/xerberus.js';
 
+// Run one sync cycle for a network: sync its feeds, verify its checkpoint, pick up a policy change and index the
+// fact statements and archives published since the last sync. The network's policies and checkpoint are updated.
+export async function syncNetwork(network: Network, cachedFeeds?: ActiveFeeds): Promise<ActiveFeeds> {
+  console.info(`\n* * Syncing feeds for ${network.name}...`);
+  const activeFeeds = await syncFeeds(network, cachedFeeds);
+
+  console.info(`\n* * Verifying chain checkpoint for ${network.name}...`);
+  await verifyChainCheckpoint(network);
+
+  console.info(`\n* * Syncing policies for ${network.name}...`);
+  const currentPolicy = network.policies.sort((a, b) => b.starting_slot - a.starting_slot)[0];
+  const latestPolicy = await getOrCreateLatestPolicy(network);
+  // If the policy has changed, sync the fact statements for the previous policy and then the latest policy
+  if (currentPolicy.policy_id !== latestPolicy.policy_id) {
+    console.info(
+      `\n* * Syncing fact statements for ${network.name} for the previous policy ID ${currentPolicy.policy_id}...`
+    );
+    const lastIndexedBeforeChange = await getLastIndexedFact(network);
+    const queryStatePrev = await syncFactStatements(network, {
+      lastBlockHash: lastIndexedBeforeChange.block_hash,
+      lastCheckpointSlot: lastIndexedBeforeChange.slot,
+      queryParams: {
+        order: 'oldest_first',
+        created_after: lastIndexedBeforeChange.slot.toString(),
+        created_before: latestPolicy.starting_slot.toString()
+      }
+    });
+    network.policies.push(latestPolicy);
+    network.last_block_hash = queryStatePrev.lastBlockHash;
+    network.last_checkpoint_slot = queryStatePrev.lastCheckpointSlot;
+
+    console.info(`\n* * Syncing fact statements for ${network.name}...`);
+    const lastIndexedAfterChange = await getLastIndexedFact(network);
+    const queryStateLatest = await syncFactStatements(network, {
+      lastBlockHash: lastIndexedAfterChange.block_hash,
+      lastCheckpointSlot: lastIndexedAfterChange.slot,
+      queryParams: { order: 'oldest_first', created_after: lastIndexedAfterChange.slot.toString() }
+    });
+    network.last_block_hash = queryStateLatest.lastBlockHash;
+    network.last_checkpoint_slot = queryStateLatest.lastCheckpointSlot;
+  }
+  // Just sync the latest fact statements if the policy hasn't changed
+  else {
+    console.info(`\n* * Syncing fact statements for ${network.name}...`);
+    const queryState = await syncFactStatements(network);
+    network.last_block_hash = queryState.lastBlockHash;
+    network.last_checkpoint_slot = queryState.lastCheckpointSlot;
+  }
+
+  if (network.is_archive_enabled) {
+    const unarchived = await getAllUnarchivedFacts(network);
+    await indexArchives(network, unarchived);
+  }
+
+  return activeFeeds;
+}
+
 // Scan for fact statements to index and sync feeds if necessary
 export async function initIndexSyncCronJob(networks: Network[]) {
   console.info('\nInitialized index sync cron job...\n');
 
-  const cachedNetworks = networks;
   let cachedFeeds: ActiveFeeds;
   let isSyncing = false;
 
@@ -27,77 +87,22 @@ export async function initIndexSyncCronJob(networks: Network[]) {
       }
       isSyncing = true;
       try {
-        for (const network of cachedNetworks) {
+        for (const network of networks) {
           // Skip indexing network if it is not enabled
           if (network.is_enabled === false) continue;
 
           console.info(`\n* Syncing index for ${network.name}...`);
+          markSyncStarted(network);
+          const endTimer = syncDuration.startTimer({ network: network.name });
           try {
-            console.info(`\n* * Syncing feeds for ${network.name}...`);
-            const activeFeeds = await syncFeeds(network, cachedFeeds);
-            cachedFeeds = activeFeeds;
-
-            console.info(`\n* * Syncing policies for ${network.name}...`);
-            const networkInCache = cachedNetworks.find((n) => n.name === network.name);
-            const currentPolicy = network.policies.sort((a, b) => b.starting_slot - a.starting_slot)[0];
-            const latestPolicy = await getOrCreateLatestPolicy(network);
-            // If the policy has changed, sync the fact statements for the previous policy and then the latest policy
-            if (currentPolicy.policy_id !== latestPolicy.policy_id) {
-              console.info(
-                `\n* * Syncing fact statements for ${network.name} for the previous policy ID ${currentPolicy.policy_id}...`
-              );
-              const lastIndexedBeforeChange = await getLastIndexedFact(network);
-              const queryStatePrev = await syncFactStatements(network, {
-                lastBlockHash: lastIndexedBeforeChange.block_hash,
-                lastCheckpointSlot: lastIndexedBeforeChange.slot,
-                queryParams: {
-                  order: 'oldest_first',
-                  created_after: lastIndexedBeforeChange.slot.toString(),
-                  created_before: latestPolicy.starting_slot.toString()
-                }
-              });
-
-              // Update cached network
-              if (networkInCache) {
-                networkInCache.policies.push(latestPolicy);
-                networkInCache.last_block_hash = queryStatePrev.lastBlockHash;
-                networkInCache.last_checkpoint_slot = queryStatePrev.lastCheckpointSlot;
-              }
-              network.policies.push(latestPolicy);
-              network.last_block_hash = queryStatePrev.lastBlockHash;
-              network.last_checkpoint_slot = queryStatePrev.lastCheckpointSlot;
-
-              console.info(`\n* * Syncing fact statements for ${network.name}...`);
-              const lastIndexedAfterChange = await getLastIndexedFact(network);
-              const queryStateLatest = await syncFactStatements(network, {
-                lastBlockHash: lastIndexedAfterChange.block_hash,
-                lastCheckpointSlot: lastIndexedAfterChange.slot,
-                queryParams: { order: 'oldest_first', created_after: lastIndexedAfterChange.slot.toString() }
-              });
-              if (networkInCache) {
-                networkInCache.last_block_hash = queryStateLatest.lastBlockHash;
-                networkInCache.last_checkpoint_slot = queryStateLatest.lastCheckpointSlot;
-              }
-            }
-            // Just sync the latest fact statements if the policy hasn't changed
-            else {
-              console.info(`\n* * Syncing fact statements for ${network.name}...`);
-              const queryState = await syncFactStatements(network);
-
-              // Update network cache
-              if (networkInCache) {
-                networkInCache.last_block_hash = queryState.lastBlockHash;
-                networkInCache.last_checkpoint_slot = queryState.lastCheckpointSlot;
-              }
-            }
-
-            if (network.name === 'Mainnet') {
-              const unarchived = await getAllUnarchivedFacts(network);
-              await indexArchives(network, unarchived);
-            }
+            cachedFeeds = await syncNetwork(network, cachedFeeds);
 
+            markSyncSucceeded(network);
+            endTimer({ result: 'success' });
             console.info(`\n* Finished syncing index for ${network.name}\n`);
           } catch (error) {
+            markSyncFailed(network, error);
+            endTimer({ result: 'failure' });
             logError(`An error occurred while syncing the index for network ${network.name}:`, error);
           }
         }
@@ -108,6 +113,73 @@ export async function initIndexSyncCronJob(networks: Network[]) {
   });
 }
 
+// Backfill archives for facts older than the sync's ARCHIVE_RETRY_HOURS window, resuming from the stored job state
+export async function initArchiveBackfillCronJob(networks: Network[]) {
+  console.info('\nInitialized archive backfill cron job...\n');
+
+  let isBackfilling = false;
+
+  CronJob.from({
+    cronTime: '0 5 * * * *', // Every hour
+    timeZone: 'UTC',
+    start: true,
+    runOnInit: true,
+    onTick: async function () {
+      if (isBackfilling) {
+        console.info('Skipping archive backfill: previous backfill still running');
+        return;
+      }
+      isBackfilling = true;
+      try {
+        for (const network of networks) {
+          if (network.is_enabled === false || !network.is_archive_enabled) continue;
+
+          try {
+            await backfillArchives(network);
+          } catch (error) {
+            logError(`An error occurred while backfilling archives for network ${network.name}:`, error);
+          }
+        }
+      } finally {
+        isBackfilling = false;
+      }
+    }
+  });
+}
+
+// Search Arweave for archives uploaded after their fact was published
+export async function initArchiveDiscoveryCronJob(networks: Network[]) {
+  console.info('\nInitialized archive discovery cron job...\n');
+
+  let isDiscovering = false;
+
+  CronJob.from({
+    cronTime: '0 35 * * * *', // Every hour
+    timeZone: 'UTC',
+    start: true,
+    onTick: async function () {
+      if (isDiscovering) {
+        console.info('Skipping archive discovery: previous discovery still running');
+        return;
+      }
+      isDiscovering = true;
+      try {
+        for (const network of networks) {
+          if (network.is_enabled === false || !network.is_archive_enabled) continue;
+
+          try {
+            await discoverArchives(network);
+          } catch (error) {
+            logError(`An error occurred while discovering archives for network ${network.name}:`, error);
+          }
+        }
+      } finally {
+        isDiscovering = false;
+      }
+    }
+  });
+}
+
 // Check for Xerberus risk rating support for all assets once a day
 export async function initXerberusRatingsSyncCronJob() {
   console.info('\nInitialized Xerberus risk ratings sync cron job...\n');
@@ -6,75 +6,68 @@ import {
   Source,
   Network,
   DBNetwork,
-  NodeSchema,
-  FeedSchema,
-  SourceSchema,
-  PolicySchema,
   FactStatement,
   NetworkSchema,
-  DBNetworkSchema,
-  FactStatementSchema,
   Asset,
-  AssetSchema
+  Rollback,
+  JobState,
+  FactBagInfo,
+  Discrepancy,
+  SourceObservation,
+  SourceOutlierStats,
+  ArchiveRetry,
+  FSPChange,
+  OnChainFactStatement,
+  Storage,
+  Repository,
+  UpsertResult
 } from './util/types.js';
 import { logError } from './util/logger.js';
-import PocketBase, { ClientResponseError } from 'pocketbase';
-
-// Setup DB connection
-const db = new PocketBase(process.env.DB_HOST);
-await db.collection('_superusers').authWithPassword(process.env.DB_EMAIL, process.env.DB_PASSWORD);
+import { factsIndexedCounter } from './util/metrics.js';
+import { DuplicateRecordError, getStorage } from './storage/index.js';
 
+// Only chain-derived fields are written, so re-indexing an existing fact keeps the data indexed from its archive
 export async function indexFactStatements(
-  facts: Omit<FactStatement, 'id' | 'participating_nodes' | 'sources' | 'content_signature' | 'collection_date'>[]
-): Promise<void> {
+  network: Network,
+  facts: OnChainFactStatement[]
+): Promise<UpsertResult<FactStatement>> {
+  const storage = await getStorage();
   const orderedFacts = facts.sort((a, b) => b.validation_date.getTime() - a.validation_date.getTime());
 
-  let successfulCount = 0;
-  let skippedCount = 0;
-
-  const promises = orderedFacts.map(async (fact) => {
-    return db
-      .collection('facts')
-      .create<FactStatement>(fact, {
-        $autoCancel: false
-      })
-      .then(() => {
-        successfulCount++;
-      })
-      .catch((error) => {
-        if (isFactAlreadyIndexed(error)) {
-          skippedCount++;
-        } else {
-          logError(
-            `Error indexing fact statement: ${fact.fact_urn} from feed ${fact.feed} on network ${fact.network === 'l1ppggh4ls079w9' ? 'Mainnet' : 'Preview'} --- ${JSON.stringify(error?.response?.data, null, 2)}`,
-            error
-          );
-          throw error;
-        }
-      });
-  });
+  const result = await storage.facts.upsertMany(orderedFacts, 'statement_hash');
 
-  await Promise.allSettled(promises);
+  factsIndexedCounter.inc({ network: network.name, result: 'inserted' }, result.inserted.length);
+  factsIndexedCounter.inc({ network: network.name, result: 'updated' }, result.updated.length);
+  factsIndexedCounter.inc({ network: network.name, result: 'failed' }, result.failed.length);
 
-  // Generate the log message based on the counts
-  let logMessage = '';
-
-  if (successfulCount > 0) {
-    logMessage += `Successfully indexed ${successfulCount}`;
+  for (const { record, error } of result.failed) {
+    logError(
+      `Error indexing fact statement: ${record.fact_urn} from feed ${record.feed} on network ${network.name} --- ${JSON.stringify((error as { response?: { data?: unknown } })?.response?.data, null, 2)}`,
+      error
+    );
   }
 
-  if (skippedCount > 0) {
-    if (logMessage) logMessage += `, `;
-    logMessage += `Skipped ${skippedCount} (already indexed)`;
+  // Generate the log message based on the counts
+  const counts = [
+    result.inserted.length > 0 && `Inserted ${result.inserted.length}`,
+    result.updated.length > 0 && `Updated ${result.updated.length} (already indexed)`,
+    result.failed.length > 0 && `Failed ${result.failed.length}`
+  ].filter(Boolean);
+  console.info(counts.join(', '));
+
+  // Fail the sync so the network checkpoint is not moved past facts that were never stored
+  if (result.failed.length > 0) {
+    const failedUrns = result.failed.map(({ record }) => record.fact_urn).join(', ');
+    throw new Error(`Failed to index ${result.failed.length} fact statements on ${network.name}: ${failedUrns}`);
   }
 
-  console.info(logMessage);
+  return result;
 }
 
 export async function fetchFeeds(network: Network): Promise<Feed[]> {
   try {
-    const feeds = await db.collection('feeds').getFullList<Feed>({ filter: `network = "${network.id}"` });
-    return z.array(FeedSchema).parse(feeds);
+    const storage = await getStorage();
+    return await storage.feeds.findAll({ filter: { network: network.id } });
   } catch (error) {
     logError('Error retrieving feeds', error);
     return [];
@@ -83,8 +76,8 @@ export async function fetchFeeds(network: Network): Promise<Feed[]> {
 
 export async function createFeed(feed: Omit<Feed, 'id'>): Promise<Feed | null> {
   try {
-    const newFeed = await db.collection('feeds').create<Feed>(feed);
-    return FeedSchema.parse(newFeed);
+    const storage = await getStorage();
+    return await storage.feeds.create(feed);
   } catch (error) {
     logError('Error adding feed record', error);
     return null;
@@ -93,100 +86,249 @@ export async function createFeed(feed: Omit<Feed, 'id'>): Promise<Feed | null> {
 
 export async function isIndexEmpty(network: Network): Promise<boolean> {
   try {
-    const facts = await db.collection('facts').getList(1, 1, { filter: `network = "${network.id}"` });
-    if (facts.totalItems === 0) console.info(`${network.name} index is empty.`);
-    return facts.totalItems === 0;
+    const storage = await getStorage();
+    const totalFacts = await storage.facts.count({ network: network.id });
+    if (totalFacts === 0) console.info(`${network.name} index is empty.`);
+    return totalFacts === 0;
   } catch (error) {
     logError(`Error checking if ${network.name} index is empty`, error);
     return false;
   }
 }
 
-// TODO: Update to "dropIndex" and make sure everything gets dropped
+// Fact and archive retry counts of a network, for operator status reports
+export async function getIndexCounts(network: Network) {
+  try {
+    const storage = await getStorage();
+    return {
+      facts: await storage.facts.count({ network: network.id }),
+      unarchived_facts: await storage.facts.count({
+        network: network.id,
+        is_archive_indexed: false,
+        storage_urn: { ne: '' }
+      }),
+      facts_without_archive: await storage.facts.count({ network: network.id, storage_urn: '' }),
+      pending_archive_retries: await storage.archiveRetries.count({ network: network.id, status: 'pending' }),
+      gave_up_archive_retries: await storage.archiveRetries.count({ network: network.id, status: 'gave_up' })
+    };
+  } catch (error) {
+    logError(`Error counting ${network.name} index records`, error);
+    throw error;
+  }
+}
+
+// Deletes every record indexed for the network. Its policies, nodes and sources are setup rather than index data,
+// so they are kept
 export async function deleteIndex(network: Network) {
   try {
+    const storage = await getStorage();
     console.info(`Deleting contents of all tables for ${network.name}...`);
 
-    console.info(`Deleting all fact statements from ${network.name}...`);
-    let hasFacts = true;
-
-    while (hasFacts) {
-      const facts = await db.collection('facts').getFullList<FactStatement>({ filter: `network = "${network.id}"` });
-
-      if (facts.length === 0) {
-        hasFacts = false;
-      } else {
-        const promises = facts.map((fact) =>
-          db
-            .collection('facts')
-            .delete(fact.id, {
-              $autoCancel: false
-            })
-            .catch((error) => {
-              // Catch and return the error here to handle it in the filtering step.
-              return { error };
-            })
-        );
-
-        await Promise.allSettled(promises);
-      }
+    // Records that refer to facts and feeds go first
+    const repositories: [string, Repository<{ id: string; network: string }>][] = [
+      ['bag infos', storage.bagInfos],
+      ['discrepancies', storage.discrepancies],
+      ['source observations', storage.sourceObservations],
+      ['source outlier stats', storage.sourceOutlierStats],
+      ['archive retries', storage.archiveRetries],
+      ['FSP changes', storage.fspChanges],
+      ['rollbacks', storage.rollbacks],
+      ['fact statements', storage.facts],
+      ['feeds', storage.feeds],
+      ['job states', storage.jobStates]
+    ];
+
+    for (const [name, repository] of repositories) {
+      console.info(`Deleting all ${name} from ${network.name}...`);
+      await deleteNetworkRecords(repository, network);
+      console.info(`Deleted all ${name} from ${network.name}`);
     }
-    console.log(`Deleted all fact statements from ${network.name}`);
-
-    // Delete feeds for network
-    const feeds = await fetchFeeds(network);
-    for (const feed of feeds) {
-      await db.collection('feeds').delete(feed.id);
-    }
-    console.info(`Deleted feeds for ${network.name}`);
   } catch (error) {
     logError(`Error deleting table contents for ${network.name}`, error);
   }
 }
 
-function isFactAlreadyIndexed(error: unknown): boolean {
-  const err = error as ClientResponseError;
-  const data = err?.response?.data;
-  if (!data || typeof data !== 'object') return false;
-  return Object.values(data).some(
-    (value: unknown) =>
-      typeof value === 'object' &&
-      value !== null &&
-      'code' in value &&
-      (value as Record<string, unknown>).code === 'validation_not_unique'
-  );
+async function deleteNetworkRecords(repository: Repository<{ id: string; network: string }>, network: Network) {
+  let records = await repository.findAll({ filter: { network: network.id } });
+
+  while (records.length > 0) {
+    const results = await Promise.allSettled(records.map((record) => repository.delete(record.id)));
+    if (results.every((result) => result.status === 'rejected')) {
+      throw new Error(`Could not delete any of ${records.length} remaining records`);
+    }
+    records = await repository.findAll({ filter: { network: network.id } });
+  }
 }
 
 export async function updateNetwork(network: Partial<DBNetwork>) {
   try {
     if (!network.id) throw new Error('Network ID is required to update network');
-    await db.collection('networks').update(network.id, network);
+    const storage = await getStorage();
+    await storage.networks.update(network.id, network);
   } catch (error) {
     logError('Error updating network record', error);
   }
 }
 
-export async function deleteFactsOlderThanSlot(network: Network, slot: number) {
+export async function getFactsAfterSlot(network: Network, slot: number): Promise<FactStatement[]> {
   try {
-    const facts = await db.collection('facts').getFullList({
-      filter: `network = "${network.id}" && slot > ${slot}`
+    const storage = await getStorage();
+    return await storage.facts.findAll({ filter: { network: network.id, slot: { gt: slot } }, sort: 'slot' });
+  } catch (error) {
+    logError(`Error retrieving facts after slot ${slot}`, error);
+    throw error;
+  }
+}
+
+// Facts created after fromSlot, up to and including toSlot, like the chain index's created_after/created_before
+export async function getFactsBetweenSlots(
+  network: Network,
+  fromSlot: number,
+  toSlot: number
+): Promise<FactStatement[]> {
+  try {
+    const storage = await getStorage();
+    return await storage.facts.findAll({
+      filter: { network: network.id, slot: { gt: fromSlot, lte: toSlot } },
+      sort: 'slot'
     });
+  } catch (error) {
+    logError(`Error retrieving facts between slots ${fromSlot} and ${toSlot}`, error);
+    throw error;
+  }
+}
+
+export async function getFactsByTransactionIds(network: Network, transactionIds: string[]): Promise<FactStatement[]> {
+  try {
+    const storage = await getStorage();
+    const facts: FactStatement[] = [];
+    for (let i = 0; i < transactionIds.length; i += 50) {
+      facts.push(
+        ...(await storage.facts.findAll({
+          filter: { network: network.id, transaction_id: { in: transactionIds.slice(i, i + 50) } }
+        }))
+      );
+    }
+    return facts;
+  } catch (error) {
+    logError('Error retrieving facts by transaction ID', error);
+    throw error;
+  }
+}
 
+export async function getFactsByUrns(network: Network, factUrns: string[]): Promise<FactStatement[]> {
+  try {
+    const storage = await getStorage();
+    const facts: FactStatement[] = [];
+    for (let i = 0; i < factUrns.length; i += 50) {
+      facts.push(
+        ...(await storage.facts.findAll({
+          filter: { network: network.id, fact_urn: { in: factUrns.slice(i, i + 50) } }
+        }))
+      );
+    }
+    return facts;
+  } catch (error) {
+    logError('Error retrieving facts by URN', error);
+    throw error;
+  }
+}
+
+// Delete facts together with the records indexed from their archives
+export async function deleteFactStatements(facts: FactStatement[]) {
+  try {
+    const storage = await getStorage();
+    for (const fact of facts) {
+      await deleteFactArchiveRecords(storage, fact);
+      await storage.facts.delete(fact.id);
+    }
+
+    console.log(`Deleted ${facts.length} facts`);
+  } catch (error) {
+    logError('Error deleting fact statements', error);
+    throw error;
+  }
+}
+
+// Clear everything taken from the facts' archives, so their archives are indexed again from scratch
+export async function resetFactArchives(facts: FactStatement[]): Promise<FactStatement[]> {
+  try {
+    const storage = await getStorage();
+    const reset: FactStatement[] = [];
     for (const fact of facts) {
-      await db.collection('facts').delete(fact.id);
+      await deleteFactArchiveRecords(storage, fact);
+      reset.push(
+        await storage.facts.update(fact.id, {
+          participating_nodes: [],
+          sources: [],
+          content_signature: '',
+          collection_date: null,
+          is_archive_indexed: false,
+          archive_verification_status: '',
+          archive_verification_error: ''
+        })
+      );
     }
+    return reset;
+  } catch (error) {
+    logError('Error resetting fact archives', error);
+    throw error;
+  }
+}
+
+async function deleteFactArchiveRecords(storage: Storage, fact: FactStatement) {
+  const related = [storage.bagInfos, storage.discrepancies, storage.sourceObservations, storage.archiveRetries];
+  for (const repository of related) {
+    for (const record of await repository.findAll({ filter: { fact: fact.id } })) {
+      await repository.delete(record.id);
+    }
+  }
+}
 
-    console.log(`Deleted ${facts.length} facts older than slot ${slot}`);
+export async function createRollback(rollback: Omit<Rollback, 'id'>): Promise<Rollback | null> {
+  try {
+    const storage = await getStorage();
+    return await storage.rollbacks.create(rollback);
   } catch (error) {
-    logError(`Error deleting facts older than slot ${slot} `, error);
+    logError('Error adding rollback record', error);
+    return null;
+  }
+}
+
+export async function getFSPChange(
+  network: Network,
+  pointer: { transaction_id: string; output_index: number }
+): Promise<FSPChange | null> {
+  try {
+    const storage = await getStorage();
+    return await storage.fspChanges.findFirst({
+      filter: { network: network.id, transaction_id: pointer.transaction_id, output_index: pointer.output_index }
+    });
+  } catch (error) {
+    logError('Error retrieving FSP change record', error);
+    return null;
+  }
+}
+
+// One FSP change record per pointer UTxO, updated when a rejected change is checked again
+export async function upsertFSPChange(change: Omit<FSPChange, 'id'>): Promise<FSPChange | null> {
+  try {
+    const storage = await getStorage();
+    const existing = await storage.fspChanges.findFirst({
+      filter: { network: change.network, transaction_id: change.transaction_id, output_index: change.output_index }
+    });
+    if (existing) return await storage.fspChanges.update(existing.id, change);
+    return await storage.fspChanges.create(change);
+  } catch (error) {
+    logError(`Error saving FSP change to ${change.new_policy_id}`, error);
+    return null;
   }
 }
 
 export async function createPolicy(policy: Omit<Policy, 'id'>): Promise<Policy> {
   try {
-    const newPolicy = await db.collection('policies').create<Policy>(policy, { requestKey: policy.policy_id });
-    const parsedPolicy = PolicySchema.parse(newPolicy);
-    return parsedPolicy;
+    const storage = await getStorage();
+    return await storage.policies.create(policy);
   } catch (error) {
     logError('Error adding policy record', error);
     throw error;
@@ -195,9 +337,8 @@ export async function createPolicy(policy: Omit<Policy, 'id'>): Promise<Policy>
 
 export async function createNetwork(networkData: Omit<DBNetwork, 'id'>): Promise<DBNetwork | null> {
   try {
-    const newNetwork = await db.collection('networks').create<DBNetwork>(networkData, { requestKey: networkData.name });
-    const parsedNetwork = DBNetworkSchema.parse(newNetwork);
-    return parsedNetwork;
+    const storage = await getStorage();
+    return await storage.networks.create(networkData);
   } catch (error) {
     logError('Error creating network', error);
     return null;
@@ -206,24 +347,21 @@ export async function createNetwork(networkData: Omit<DBNetwork, 'id'>): Promise
 
 export async function getAllNetworks(): Promise<Network[]> {
   try {
-    const response = await db.collection('networks').getFullList({
-      expand: 'policies_via_network'
-    });
+    const storage = await getStorage();
+    const networkRecords = await storage.networks.findAll();
+    const policyRecords = await storage.policies.findAll({ sort: '-starting_slot' });
 
-    const networks: Network[] = response.map((networkRecord) => {
+    const networks: Network[] = networkRecords.map((networkRecord) => {
       const database = {
         fact_statements: `${networkRecord.name.toLowerCase()}_fact_statements`,
         feeds: `${networkRecord.name.toLowerCase()}_feeds`
       };
-      const policies = networkRecord.expand?.policies_via_network
-        ? z
-            .array(PolicySchema)
-            .parse(networkRecord.expand.policies_via_network)
-            .sort((a, b) => b.starting_slot - a.starting_slot)
-        : [];
+      const policies = policyRecords.filter((policy) => policy.network === networkRecord.id);
 
       return NetworkSchema.parse({
         ...networkRecord,
+        // Records created before archive indexing was a network setting keep indexing archives on Mainnet only
+        is_archive_enabled: networkRecord.is_archive_enabled ?? networkRecord.name === 'Mainnet',
         policies,
         database
       });
@@ -236,13 +374,16 @@ export async function getAllNetworks(): Promise<Network[]> {
   }
 }
 
+export async function getNetworkByName(name: string): Promise<Network | null> {
+  const networks = await getAllNetworks();
+  return networks.find((network) => network.name.toLowerCase() === name.toLowerCase()) ?? null;
+}
+
 export async function getLastIndexedFact(network: Network): Promise<FactStatement> {
   try {
-    const response = await db.collection('facts').getFirstListItem<FactStatement>(`network = "${network.id}"`, {
-      sort: '-slot'
-    });
-
-    const latestFact = FactStatementSchema.parse(response);
+    const storage = await getStorage();
+    const latestFact = await storage.facts.findFirst({ filter: { network: network.id }, sort: '-slot' });
+    if (!latestFact) throw new Error(`No fact statements indexed for ${network.name}`);
 
     return latestFact;
   } catch (error) {
@@ -253,7 +394,8 @@ export async function getLastIndexedFact(network: Network): Promise<FactStatemen
 
 export async function updateFeed(feed: Partial<Feed> & Pick<Feed, 'id'>) {
   try {
-    await db.collection('feeds').update(feed.id, feed);
+    const storage = await getStorage();
+    await storage.feeds.update(feed.id, feed);
   } catch (error) {
     logError('Error updating feed record', error);
   }
@@ -280,13 +422,8 @@ export async function fetchAndParse<T>(
 
 export async function getAllNodes(network: Network): Promise<Node[]> {
   try {
-    const response = await db.collection('nodes').getFullList({
-      filter: `network = "${network.id}"`
-    });
-
-    const nodes = z.array(NodeSchema).parse(response);
-
-    return nodes;
+    const storage = await getStorage();
+    return await storage.nodes.findAll({ filter: { network: network.id } });
   } catch (error) {
     logError('Error retrieving node records', error);
     return [];
@@ -295,8 +432,8 @@ export async function getAllNodes(network: Network): Promise<Node[]> {
 
 export async function createNode(node: Omit<Node, 'id'>): Promise<Node | null> {
   try {
-    const newNode = await db.collection('nodes').create<Node>(node);
-    return NodeSchema.parse(newNode);
+    const storage = await getStorage();
+    return await storage.nodes.create(node);
   } catch (error) {
     logError('Error adding node record', error);
     return null;
@@ -305,13 +442,8 @@ export async function createNode(node: Omit<Node, 'id'>): Promise<Node | null> {
 
 export async function getAllSources(network: Network): Promise<Source[]> {
   try {
-    const response = await db.collection('sources').getFullList({
-      filter: `network = "${network.id}"`
-    });
-
-    const sources = z.array(SourceSchema).parse(response);
-
-    return sources;
+    const storage = await getStorage();
+    return await storage.sources.findAll({ filter: { network: network.id } });
   } catch (error) {
     logError('Error retrieving source records', error);
     return [];
@@ -320,8 +452,8 @@ export async function getAllSources(network: Network): Promise<Source[]> {
 
 export async function createSource(network: Network, source: Omit<Source, 'id'>): Promise<Source | null> {
   try {
-    const newSource = await db.collection('sources').create<Source>(source);
-    return SourceSchema.parse(newSource);
+    const storage = await getStorage();
+    return await storage.sources.create(source);
   } catch (error) {
     logError(`Error adding source record to ${network.name}. \n ${JSON.stringify(source, null, 2)}`, error);
     return null;
@@ -331,8 +463,8 @@ export async function createSource(network: Network, source: Omit<Source, 'id'>)
 export async function updateSource(source: Partial<Source>): Promise<Source | null> {
   try {
     if (!source.id) throw new Error('Source ID is required to update source');
-    const updatedSource = await db.collection('sources').update<Source>(source.id, source);
-    return updatedSource;
+    const storage = await getStorage();
+    return await storage.sources.update(source.id, source);
   } catch (error) {
     logError('Error updating source record', error);
     return null;
@@ -341,39 +473,92 @@ export async function updateSource(source: Partial<Source>): Promise<Source | nu
 
 export async function updateFactStatement(id: string, fact: Partial<FactStatement>) {
   try {
-    await db.collection('facts').update(id, { ...fact });
+    const storage = await getStorage();
+    await storage.facts.update(id, fact);
   } catch (error) {
     logError('Error updating fact statement nodes', error);
   }
 }
 
+// Unarchived facts published within the last ARCHIVE_RETRY_HOURS, plus older facts whose archive retry is due
 export async function getAllUnarchivedFacts(network: Network): Promise<FactStatement[]> {
   try {
     const archiveRetryHours = Number(process.env.ARCHIVE_RETRY_HOURS) || 6;
-    const cutoff = new Date(Date.now() - archiveRetryHours * 60 * 60 * 1000).toISOString().replace('T', ' ').slice(0, 19);
-
-    const response = await db.collection('facts').getFullList({
-      filter: `network = "${network.id}" && is_archive_indexed = false && storage_urn != "" && publication_date >= "${cutoff}"`
+    const cutoff = new Date(Date.now() - archiveRetryHours * 60 * 60 * 1000);
+
+    const storage = await getStorage();
+    const recentFacts = await storage.facts.findAll({
+      filter: {
+        network: network.id,
+        is_archive_indexed: false,
+        storage_urn: { ne: '' },
+        publication_date: { gte: cutoff }
+      }
     });
 
-    const facts = z.array(FactStatementSchema).parse(response);
+    const dueRetries = await storage.archiveRetries.findAll({
+      filter: { network: network.id, status: 'pending', next_attempt_at: { lte: new Date() } }
+    });
+    const recentIds = new Set(recentFacts.map((fact) => fact.id));
+    const retryFacts = await getFactsByIds(dueRetries.map((retry) => retry.fact).filter((id) => !recentIds.has(id)));
 
-    return facts;
+    return [...recentFacts, ...retryFacts.filter((fact) => !fact.is_archive_indexed)];
   } catch (error) {
     logError('Error retrieving fact records', error);
     return [];
   }
 }
 
-export async function getAllFactStatements(network: Network): Promise<FactStatement[]> {
+async function getFactsByIds(ids: string[]): Promise<FactStatement[]> {
+  const storage = await getStorage();
+  const facts: FactStatement[] = [];
+  for (let i = 0; i < ids.length; i += 50) {
+    facts.push(...(await storage.facts.findAll({ filter: { id: { in: ids.slice(i, i + 50) } } })));
+  }
+  return facts;
+}
+
+// Oldest unarchived fact with an archive, optionally published at or after the given date
+export async function getOldestUnarchivedFact(network: Network, after?: Date): Promise<FactStatement | null> {
   try {
-    const response = await db.collection('facts').getFullList({
-      filter: `network = "${network.id}"`
+    const storage = await getStorage();
+    return await storage.facts.findFirst({
+      filter: {
+        network: network.id,
+        is_archive_indexed: false,
+        storage_urn: { ne: '' },
+        ...(after ? { publication_date: { gte: after } } : {})
+      },
+      sort: 'publication_date'
     });
+  } catch (error) {
+    logError('Error retrieving oldest unarchived fact', error);
+    throw error;
+  }
+}
 
-    const facts = z.array(FactStatementSchema).parse(response);
+export async function getUnarchivedFactsBetween(network: Network, from: Date, to: Date): Promise<FactStatement[]> {
+  try {
+    const storage = await getStorage();
+    return await storage.facts.findAll({
+      filter: {
+        network: network.id,
+        is_archive_indexed: false,
+        storage_urn: { ne: '' },
+        publication_date: { gte: from, lt: to }
+      },
+      sort: 'publication_date'
+    });
+  } catch (error) {
+    logError(`Error retrieving unarchived facts between ${from.toISOString()} and ${to.toISOString()}`, error);
+    throw error;
+  }
+}
 
-    return facts;
+export async function getAllFactStatements(network: Network): Promise<FactStatement[]> {
+  try {
+    const storage = await getStorage();
+    return await storage.facts.findAll({ filter: { network: network.id } });
   } catch (error) {
     logError('Error retrieving fact records', error);
     return [];
@@ -382,12 +567,9 @@ export async function getAllFactStatements(network: Network): Promise<FactStatem
 
 export async function getAssetByTicker(ticker: string): Promise<Asset | null> {
   try {
-    const response = await db.collection('assets').getFirstListItem<Asset>(`ticker = "${ticker}"`);
-    return AssetSchema.parse(response);
+    const storage = await getStorage();
+    return await storage.assets.findFirst({ filter: { ticker } });
   } catch (error) {
-    if (error instanceof ClientResponseError && error.response.code === 404) {
-      return null;
-    }
     logError('Error retrieving asset', error);
     return null;
   }
@@ -396,8 +578,8 @@ export async function getAssetByTicker(ticker: string): Promise<Asset | null> {
 export async function createAsset(asset: Omit<Asset, 'id'>): Promise<Asset | null> {
   try {
     console.info(`Creating asset: ${asset.ticker}`);
-    const newAsset = await db.collection('assets').create<Asset>(asset);
-    return AssetSchema.parse(newAsset);
+    const storage = await getStorage();
+    return await storage.assets.create(asset);
   } catch (error) {
     logError('Error adding asset record', error);
     return null;
@@ -406,10 +588,243 @@ export async function createAsset(asset: Omit<Asset, 'id'>): Promise<Asset | nul
 
 export async function getAllAssets(): Promise<Asset[]> {
   try {
-    const response = await db.collection('assets').getFullList();
-    return z.array(AssetSchema).parse(response);
+    const storage = await getStorage();
+    return await storage.assets.findAll();
   } catch (error) {
     logError('Error retrieving asset records', error);
     return [];
   }
 }
+
+export async function updateAsset(asset: Partial<Asset> & Pick<Asset, 'id'>): Promise<Asset | null> {
+  try {
+    const storage = await getStorage();
+    return await storage.assets.update(asset.id, asset);
+  } catch (error) {
+    logError(`Error updating asset record ${asset.id}`, error);
+    return null;
+  }
+}
+
+export async function getJobState(job: string, network: Network): Promise<JobState | null> {
+  try {
+    const storage = await getStorage();
+    return await storage.jobStates.findFirst({ filter: { job, network: network.id } });
+  } catch (error) {
+    logError(`Error retrieving ${job} job state for ${network.name}`, error);
+    throw error;
+  }
+}
+
+export async function getJobStates(network: Network): Promise<JobState[]> {
+  try {
+    const storage = await getStorage();
+    return await storage.jobStates.findAll({ filter: { network: network.id }, sort: 'job' });
+  } catch (error) {
+    logError(`Error retrieving job states for ${network.name}`, error);
+    throw error;
+  }
+}
+
+export async function createJobState(jobState: Omit<JobState, 'id'>): Promise<JobState> {
+  try {
+    const storage = await getStorage();
+    return await storage.jobStates.create(jobState);
+  } catch (error) {
+    logError(`Error creating ${jobState.job} job state`, error);
+    throw error;
+  }
+}
+
+export async function getOrCreateJobState(job: string, network: Network): Promise<JobState> {
+  const jobState = await getJobState(job, network);
+  if (jobState) return jobState;
+
+  return createJobState({
+    job,
+    network: network.id,
+    status: 'idle',
+    cursor_date: null,
+    processed_count: 0,
+    indexed_count: 0,
+    failed_count: 0,
+    last_error: '',
+    last_run_at: null
+  });
+}
+
+export async function updateJobState(jobState: Partial<JobState> & Pick<JobState, 'id'>) {
+  try {
+    const storage = await getStorage();
+    await storage.jobStates.update(jobState.id, jobState);
+  } catch (error) {
+    logError('Error updating job state record', error);
+    throw error;
+  }
+}
+
+// One bag info record per fact, so re-indexing an archive replaces the previous record
+export async function upsertBagInfo(bagInfo: Omit<FactBagInfo, 'id'>): Promise<FactBagInfo | null> {
+  try {
+    const storage = await getStorage();
+    const existing = await storage.bagInfos.findFirst({ filter: { fact: bagInfo.fact } });
+    if (existing) return await storage.bagInfos.update(existing.id, bagInfo);
+    return await storage.bagInfos.create(bagInfo);
+  } catch (error) {
+    logError(`Error saving bag info for ${bagInfo.fact_urn}`, error);
+    return null;
+  }
+}
+
+// Replace the discrepancies recorded for a fact, so reconciling an archive again doesn't duplicate them
+export async function replaceDiscrepancies(fact: FactStatement, discrepancies: Omit<Discrepancy, 'id'>[]) {
+  try {
+    const storage = await getStorage();
+    const existing = await storage.discrepancies.findAll({ filter: { fact: fact.id } });
+    for (const discrepancy of existing) await storage.discrepancies.delete(discrepancy.id);
+    for (const discrepancy of discrepancies) await storage.discrepancies.create(discrepancy);
+  } catch (error) {
+    logError(`Error saving discrepancies for ${fact.fact_urn}`, error);
+  }
+}
+
+// Replace the source observations recorded for a fact, so indexing its archive again doesn't duplicate them
+// Returns the observations that were replaced along with the new ones, so the daily stats can be updated from both
+export async function replaceSourceObservations(
+  fact: FactStatement,
+  observations: Omit<SourceObservation, 'id'>[]
+): Promise<{ replaced: SourceObservation[]; created: SourceObservation[] }> {
+  try {
+    const storage = await getStorage();
+    const replaced = await storage.sourceObservations.findAll({ filter: { fact: fact.id } });
+    for (const observation of replaced) await storage.sourceObservations.delete(observation.id);
+
+    const created: SourceObservation[] = [];
+    for (const observation of observations) created.push(await storage.sourceObservations.create(observation));
+    return { replaced, created };
+  } catch (error) {
+    logError(`Error saving source observations for ${fact.fact_urn}`, error);
+    return { replaced: [], created: [] };
+  }
+}
+
+export async function getSourceObservationsBetween(source: string, from: Date, to: Date): Promise<SourceObservation[]> {
+  try {
+    const storage = await getStorage();
+    return await storage.sourceObservations.findAll({
+      filter: { source, validation_date: { gte: from, lt: to } }
+    });
+  } catch (error) {
+    logError(`Error retrieving observations of source ${source}`, error);
+    return [];
+  }
+}
+
+export async function getSourceOutlierStats(source: string, day: Date): Promise<SourceOutlierStats | null> {
+  try {
+    const storage = await getStorage();
+    return await storage.sourceOutlierStats.findFirst({ filter: { source, day } });
+  } catch (error) {
+    logError(`Error retrieving outlier stats for source ${source}`, error);
+    return null;
+  }
+}
+
+// One stats record per source and day, so rolling up a day again replaces its previous stats. The record may be
+// created by another process between the lookup and the insert, in which case it is updated instead
+export async function upsertSourceOutlierStats(
+  stats: Omit<SourceOutlierStats, 'id'>
+): Promise<SourceOutlierStats | null> {
+  try {
+    const storage = await getStorage();
+    const filter = { source: stats.source, day: stats.day };
+    const existing = await storage.sourceOutlierStats.findFirst({ filter });
+    if (existing) return await storage.sourceOutlierStats.update(existing.id, stats);
+    try {
+      return await storage.sourceOutlierStats.create(stats);
+    } catch (error) {
+      const created = error instanceof DuplicateRecordError && (await storage.sourceOutlierStats.findFirst({ filter }));
+      if (!created) throw error;
+      return await storage.sourceOutlierStats.update(created.id, stats);
+    }
+  } catch (error) {
+    logError(`Error saving outlier stats for source ${stats.source}`, error);
+    return null;
+  }
+}
+
+// Facts validated since the given date without an archive, e.g. because the Arweave upload hadn't been made when
+// the fact was published
+export async function getFactsWithoutArchive(network: Network, since: Date): Promise<FactStatement[]> {
+  try {
+    const storage = await getStorage();
+    return await storage.facts.findAll({
+      filter: { network: network.id, storage_urn: '', validation_date: { gte: since } },
+      sort: '-validation_date'
+    });
+  } catch (error) {
+    logError(`Error retrieving ${network.name} facts without an archive`, error);
+    throw error;
+  }
+}
+
+export async function getArchiveRetries(facts: FactStatement[]): Promise<ArchiveRetry[]> {
+  try {
+    const storage = await getStorage();
+    const retries: ArchiveRetry[] = [];
+    for (let i = 0; i < facts.length; i += 50) {
+      const ids = facts.slice(i, i + 50).map((fact) => fact.id);
+      retries.push(...(await storage.archiveRetries.findAll({ filter: { fact: { in: ids } } })));
+    }
+    return retries;
+  } catch (error) {
+    logError('Error retrieving archive retries', error);
+    throw error;
+  }
+}
+
+export async function upsertArchiveRetry(retry: Omit<ArchiveRetry, 'id'>): Promise<ArchiveRetry | null> {
+  try {
+    const storage = await getStorage();
+    const existing = await storage.archiveRetries.findFirst({ filter: { fact: retry.fact } });
+    if (existing) return await storage.archiveRetries.update(existing.id, retry);
+    return await storage.archiveRetries.create(retry);
+  } catch (error) {
+    logError(`Error saving archive retry for ${retry.fact_urn}`, error);
+    return null;
+  }
+}
+
+export async function deleteArchiveRetry(retry: ArchiveRetry) {
+  try {
+    const storage = await getStorage();
+    await storage.archiveRetries.delete(retry.id);
+  } catch (error) {
+    logError(`Error deleting archive retry for ${retry.fact_urn}`, error);
+  }
+}
+
+// Reset the retries of the given facts, or of every fact that was given up on, so they are fetched on the next sync
+export async function requeueArchiveRetries(network: Network, factUrns?: string[]): Promise<ArchiveRetry[]> {
+  try {
+    const storage = await getStorage();
+    const retries = await storage.archiveRetries.findAll({
+      filter: { network: network.id, ...(factUrns ? { fact_urn: { in: factUrns } } : { status: 'gave_up' }) }
+    });
+
+    const requeued: ArchiveRetry[] = [];
+    for (const retry of retries) {
+      requeued.push(
+        await storage.archiveRetries.update(retry.id, {
+          status: 'pending',
+          attempt_count: 0,
+          next_attempt_at: new Date()
+        })
+      );
+    }
+    return requeued;
+  } catch (error) {
+    logError(`Error requeueing ${network.name} archive retries`, error);
+    throw error;
+  }
+}
@@ -1,14 +1,25 @@
 import 'dotenv/config';
 import { isIndexEmpty } from './db.js';
+import { initServer } from './server.js';
 import { logError } from './util/logger.js';
-import { initIndexSyncCronJob, initXerberusRatingsSyncCronJob } from './cron.js';
-import { getNetworks, populateIndex } from './kupo.js';
+import { markReady, trackNetworks } from './util/status.js';
+import {
+  initIndexSyncCronJob,
+  initArchiveBackfillCronJob,
+  initArchiveDiscoveryCronJob,
+  initXerberusRatingsSyncCronJob
+} from './cron.js';
+import { getNetworks, populateIndex } from './indexer.js';
 
 try {
   console.info('\nBooting up Explorer Index...');
 
+  // Setup HTTP server so liveness checks pass while the index is being populated
+  initServer();
+
   // Setup Networks
   const networks = await getNetworks();
+  trackNetworks(networks);
 
   // Setup Fact Statements
   for (const network of networks) {
@@ -19,7 +30,10 @@ try {
 
   // Setup Cron Jobs
   initIndexSyncCronJob(networks);
+  initArchiveBackfillCronJob(networks);
+  initArchiveDiscoveryCronJob(networks);
   initXerberusRatingsSyncCronJob();
+  markReady();
 } catch (error) {
   logError('Unhandled exception', error);
 }
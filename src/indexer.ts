@@ -0,0 +1,611 @@
+import {
+  createFeed,
+  fetchFeeds,
+  createPolicy,
+  createNetwork,
+  updateNetwork,
+  getAllNetworks,
+  createRollback,
+  getFactsAfterSlot,
+  indexFactStatements,
+  getFSPChange,
+  upsertFSPChange,
+  updateFactStatement,
+  deleteFactStatements,
+  getFactsByTransactionIds
+} from './db.js';
+import {
+  Asset,
+  Policy,
+  Network,
+  KupoMatch,
+  Rollback,
+  DBNetwork,
+  FactStatement,
+  FSPChange,
+  NetworkSeed,
+  PolicySchema,
+  OnChainFactStatement,
+  NetworkSchema,
+  KupoCheckpoint,
+  OrcfaxToSSchema,
+  KupoRequestOptions,
+  TransactionMetadata,
+  KupoMatchesByTransaction
+} from './util/types.js';
+import blake2b from 'blake2b';
+import { logError } from './util/logger.js';
+import { getChainIndexProvider } from './chain-index.js';
+import { decodeDatum, decodePolicyIdDatum } from './util/datums.js';
+import { rollbacksCounter, orphanedFactsCounter, fspChangesCounter } from './util/metrics.js';
+import { dateToSlot, NetworkSeeds, slotAfterTimePeriod, slotToDate } from './util/network.js';
+import { syncFeeds, extractTickersFromFeedName, getOrCreateAssets } from './util/feeds.js';
+
+// Populate the index from scratch for a given network by
+// fetching time-based batches of matches from its chain index
+export async function populateIndex(network: Network) {
+  console.info(`\nPopulating index for ${network.name}...`);
+  const chainIndex = getChainIndexProvider(network);
+
+  console.info(`\nPopulating active feeds for ${network.name}...`);
+  await syncFeeds(network);
+
+  let lastCheckpointSlot;
+  let lastBlockHash;
+  const policies = network.policies.sort((a, b) => a.starting_slot - b.starting_slot);
+
+  for (const policy of policies) {
+    console.info(`\nIndexing facts for ${network.name} policy: ${policy.policy_id}...`);
+    const latestSlot = dateToSlot(new Date(), network);
+    let currentSlot = policy.starting_slot;
+
+    while (currentSlot < latestSlot) {
+      const nextSlot = slotAfterTimePeriod(currentSlot, 'day', network);
+      const queryEndSlot = nextSlot < latestSlot ? nextSlot : latestSlot;
+
+      const response = await chainIndex.streamMatches(policy, {
+        lastBlockHash: null,
+        lastCheckpointSlot: null,
+        queryParams: {
+          order: 'oldest_first',
+          created_after: currentSlot.toString(),
+          created_before: queryEndSlot.toString()
+        }
+      });
+
+      if (response === null) return;
+
+      // Archives of the populated facts are indexed in the background by the archive backfill job
+      try {
+        let matchesCount = 0;
+        for await (const transactions of response.batches) {
+          matchesCount += [...transactions.values()].reduce((count, matches) => count + matches.length, 0);
+          await parseAndIndexMatches(network, transactions);
+        }
+        if (matchesCount > 0)
+          console.log(`Indexed ${matchesCount} matches for slots ${currentSlot} to ${queryEndSlot}`);
+      } catch (error) {
+        logError(`Error streaming ${network.name} matches for slots ${currentSlot} to ${queryEndSlot}`, error);
+        return;
+      }
+
+      currentSlot = queryEndSlot;
+      lastBlockHash = response.lastBlockHash;
+      lastCheckpointSlot = response.lastCheckpointSlot;
+    }
+  }
+
+  // Create initial network query cache
+  await updateNetwork({
+    id: network.id,
+    last_checkpoint_slot: lastCheckpointSlot,
+    last_block_hash: lastBlockHash
+  });
+
+  console.info(`Index populated for ${network.name}`);
+}
+
+export async function getNetworks(): Promise<Network[]> {
+  try {
+    const existingNetworks = await getAllNetworks();
+
+    // Check if any networks are missing and populate them if they are
+    const names = existingNetworks.map((network) => network.name);
+    const missingSeeds = NetworkSeeds.filter((seed) => !names.includes(seed.name));
+    const newlyPopulatedNetworks = await Promise.all(missingSeeds.map((seed) => populateNetwork(seed)));
+    const successfullyPopulatedNetworks = newlyPopulatedNetworks.filter(Boolean) as Network[];
+
+    return [...existingNetworks, ...successfullyPopulatedNetworks];
+  } catch (error) {
+    logError('Error while fetching or populating networks', error);
+    return [];
+  }
+}
+
+async function populateNetwork(seed: NetworkSeed): Promise<Network | null> {
+  try {
+    if (!seed.is_enabled) return null;
+
+    const network = await createNetwork(seed);
+    if (!network) throw new Error(`Failed to create network: ${seed.name}`);
+    else console.info(`Created network: ${network.name}`);
+
+    const policies = await populatePolicyIDs(network, seed);
+    const populatedNetwork = NetworkSchema.parse({
+      ...network,
+      policies
+    });
+
+    return populatedNetwork;
+  } catch (error) {
+    logError(`Error populating network: ${seed.name}`, error);
+    return null;
+  }
+}
+
+async function populatePolicyIDs(network: DBNetwork, seed: NetworkSeed): Promise<Policy[]> {
+  try {
+    // Fetch all policy ID matches from the chain index
+    const chainIndex = getChainIndexProvider(network);
+    const policyMatches = await chainIndex.getPointerMatches({ unspent: false, order: 'oldest_first' });
+
+    // Fetch and parse policies from datums
+    const policies = await Promise.all(
+      policyMatches.map(async (match) => {
+        if (!match.datum_hash) throw new Error('Expected datum hash but found none');
+        const datum = await chainIndex.getDatum(match.datum_hash);
+        if (!datum) throw new Error('Datum from chain index response was null');
+        const policy_id = decodePolicyIdDatum(datum);
+
+        // Construct policy object
+        return {
+          network: network.id,
+          policy_id,
+          starting_slot: match.created_at.slot_no,
+          starting_block_hash: match.created_at.header_hash,
+          starting_date: slotToDate(match.created_at.slot_no, network)
+        };
+      })
+    );
+
+    // Filter out duplicate policy_id objects, keeping the first instance
+    const uniquePolicies = policies.filter(
+      (policy, index, self) => index === self.findIndex((p) => p.policy_id === policy.policy_id)
+    );
+
+    // Filter out policies to ignore from seed
+    const filteredPolicies = uniquePolicies.filter((policy) => !seed.ignore_policies.includes(policy.policy_id));
+
+    // Create policies
+    const createdPolicies = await Promise.all(filteredPolicies.map(createPolicy));
+    createdPolicies.forEach((policy) => console.log(`Created ${network.name} policy: ${policy.policy_id}`));
+    return createdPolicies;
+  } catch (error) {
+    logError(`Error populating policy IDs for network ${network.name}`, error);
+    return [];
+  }
+}
+
+export async function getOrCreateLatestPolicy(network: Network): Promise<Policy> {
+  try {
+    // Get current cached policy ID
+    if (network.policies.length === 0)
+      throw new Error(`No policies found for network: ${network.name}. There should be at least one policy.`);
+    const currentPolicy = network.policies.sort((a, b) => b.starting_slot - a.starting_slot)[0];
+
+    // Fetch latest policy ID from the chain index
+    const chainIndex = getChainIndexProvider(network);
+    const policyMatches = await chainIndex.getPointerMatches({ unspent: true, order: 'most_recent_first' });
+    if (!policyMatches || policyMatches.length === 0) throw new Error('No matches found from the chain index');
+    if (!policyMatches[0].datum_hash) throw new Error('Expected datum hash but found none');
+    const datum = await chainIndex.getDatum(policyMatches[0].datum_hash);
+    if (!datum) throw new Error('Datum from chain index response was null');
+    const fetchedPolicyID = decodePolicyIdDatum(datum);
+
+    // Skip if the new policy has the same policy ID as an existing policy
+    const policyAlreadyExists = network.policies.some((policy) => policy.policy_id === fetchedPolicyID);
+    if (policyAlreadyExists) return currentPolicy;
+
+    // Handle FSP policy ID change
+    const pointer = policyMatches[0];
+    console.info(`Detected ${network.name} FSP change...`);
+    const newPolicy = PolicySchema.omit({ id: true }).parse({
+      network: network.id,
+      policy_id: fetchedPolicyID,
+      starting_slot: pointer.created_at.slot_no,
+      starting_block_hash: pointer.created_at.header_hash,
+      starting_date: slotToDate(pointer.created_at.slot_no, network)
+    });
+    const previousChange = await getFSPChange(network, pointer);
+    const change: Omit<FSPChange, 'id' | 'policy' | 'status' | 'rejection_reason'> = {
+      network: network.id,
+      previous_policy_id: currentPolicy.policy_id,
+      new_policy_id: fetchedPolicyID,
+      transaction_id: pointer.transaction_id,
+      output_index: pointer.output_index,
+      slot: pointer.created_at.slot_no,
+      block_hash: pointer.created_at.header_hash,
+      detected_at: previousChange?.detected_at ?? new Date()
+    };
+    const description = `${network.name} FSP change from ${currentPolicy.policy_id} to ${fetchedPolicyID} (pointer ${pointer.transaction_id}#${pointer.output_index} at slot ${pointer.created_at.slot_no})`;
+
+    // Keep the current policy while the change is rejected, alerting once per pointer and reason
+    const rejectionReason = await getFSPChangeRejectionReason(network, currentPolicy, pointer, newPolicy);
+    if (rejectionReason) {
+      await upsertFSPChange({ ...change, policy: '', status: 'rejected', rejection_reason: rejectionReason });
+      if (previousChange?.rejection_reason !== rejectionReason) {
+        fspChangesCounter.inc({ network: network.name, status: 'rejected' });
+        logError(`Rejected ${description}: ${rejectionReason}`);
+      }
+      return currentPolicy;
+    }
+
+    // Accepted changes are expected, so they're only logged and counted
+    const createdPolicy = await createPolicy(newPolicy);
+    await upsertFSPChange({ ...change, policy: createdPolicy.id, status: 'accepted', rejection_reason: '' });
+    fspChangesCounter.inc({ network: network.name, status: 'accepted' });
+    console.info(`Accepted ${description}`);
+    return createdPolicy;
+  } catch (error) {
+    logError(`Error retrieving or indexing the latest policy ID for network ${network.name}`, error);
+    throw error;
+  }
+}
+
+// Why a new policy ID in the FSP datum shouldn't become the active policy, or null when it can. The policy must not
+// be ignored by the network seed, the pointer UTxO must be newer than the current policy and still on chain, and
+// the new policy must have minted facts.
+async function getFSPChangeRejectionReason(
+  network: Network,
+  currentPolicy: Policy,
+  pointer: KupoMatch,
+  newPolicy: Omit<Policy, 'id'>
+): Promise<string | null> {
+  const seed = NetworkSeeds.find((networkSeed) => networkSeed.name === network.name);
+  if (seed?.ignore_policies.includes(newPolicy.policy_id)) return `Policy is in the ${network.name} ignore_policies`;
+
+  if (pointer.created_at.slot_no <= currentPolicy.starting_slot)
+    return `Pointer UTxO is stale, it was created at or before slot ${currentPolicy.starting_slot} where the current policy started`;
+
+  // Blocks older than the rollback window are immutable and the chain index may no longer keep checkpoints for them
+  const chainIndex = getChainIndexProvider(network);
+  const rollbackWindowSlots = Number(process.env.ROLLBACK_WINDOW_SLOTS) || 43200;
+  if (dateToSlot(new Date(), network) - pointer.created_at.slot_no <= rollbackWindowSlots) {
+    const checkpoint = await chainIndex.getCheckpoint(pointer.created_at.slot_no);
+    if (!checkpoint || checkpoint.header_hash !== pointer.created_at.header_hash)
+      return `Pointer UTxO block ${pointer.created_at.header_hash} was rolled back`;
+  }
+
+  const response = await chainIndex.getMatches(
+    { ...newPolicy, id: '' },
+    {
+      lastBlockHash: null,
+      lastCheckpointSlot: null,
+      queryParams: { order: 'oldest_first', created_after: currentPolicy.starting_slot.toString() }
+    }
+  );
+  if (response === null) throw new Error(`Unable to fetch ${network.name} matches for policy ${newPolicy.policy_id}`);
+  if (response.transactions.size === 0) return 'Policy has not minted any facts';
+
+  return null;
+}
+
+// Sync latest matches for a given network from its chain index
+export async function syncFactStatements(
+  network: Network,
+  options?: KupoRequestOptions
+): Promise<{ lastCheckpointSlot: number; lastBlockHash: string }> {
+  const requestOptions = options || {
+    lastBlockHash: network.last_block_hash,
+    lastCheckpointSlot: network.last_checkpoint_slot,
+    queryParams: {
+      order: 'oldest_first',
+      created_after: network.last_checkpoint_slot.toString()
+    }
+  };
+
+  const latestPolicy = network.policies.sort((a, b) => b.starting_slot - a.starting_slot)[0];
+  const response = await getChainIndexProvider(network).getMatches(latestPolicy, requestOptions);
+  if (response === null)
+    return { lastCheckpointSlot: network.last_checkpoint_slot, lastBlockHash: network.last_block_hash };
+
+  // The chain index tip moving backwards means the chain rolled back past our checkpoint
+  if (requestOptions.lastCheckpointSlot && response.lastCheckpointSlot < requestOptions.lastCheckpointSlot) {
+    console.log('Chain rollback detected. Chain index checkpoint is behind the stored checkpoint.');
+    await handleChainRollback(network, { slot_no: response.lastCheckpointSlot, header_hash: response.lastBlockHash });
+    return { lastCheckpointSlot: network.last_checkpoint_slot, lastBlockHash: network.last_block_hash };
+  }
+
+  await parseAndIndexMatches(network, response.transactions);
+
+  // Update network query cache
+  await updateNetwork({
+    id: network.id,
+    last_checkpoint_slot: response.lastCheckpointSlot,
+    last_block_hash: response.lastBlockHash
+  });
+
+  return { lastCheckpointSlot: response.lastCheckpointSlot, lastBlockHash: response.lastBlockHash };
+}
+
+// Check that the stored checkpoint is still part of the chain the chain index follows, handling a rollback if
+// it isn't. This catches forks where the chain index tip has already moved past the stored checkpoint slot.
+export async function verifyChainCheckpoint(network: Network): Promise<Rollback | null> {
+  if (!network.last_checkpoint_slot || !network.last_block_hash) return null;
+
+  // Blocks older than the rollback window are immutable and the chain index may no longer keep checkpoints for them
+  const rollbackWindowSlots = Number(process.env.ROLLBACK_WINDOW_SLOTS) || 43200;
+  if (dateToSlot(new Date(), network) - network.last_checkpoint_slot > rollbackWindowSlots) return null;
+
+  const chainIndex = getChainIndexProvider(network);
+  const checkpoint = await chainIndex.getCheckpoint(network.last_checkpoint_slot);
+  if (checkpoint && checkpoint.header_hash === network.last_block_hash) return null;
+
+  console.log(
+    `Chain rollback detected. Stored checkpoint ${network.last_checkpoint_slot} (${network.last_block_hash}) is no longer on chain.`
+  );
+  const tip = await chainIndex.getTip();
+  return handleChainRollback(network, tip);
+}
+
+// Find the intersection between the index and the chain index's view of the chain, remove facts from the orphaned
+// fork and rewind the network checkpoint so the next sync re-indexes from the intersection point
+export async function handleChainRollback(network: Network, tip: KupoCheckpoint): Promise<Rollback | null> {
+  const rollbackWindowSlots = Number(process.env.ROLLBACK_WINDOW_SLOTS) || 43200;
+  const fromSlot = Math.max(0, Math.min(network.last_checkpoint_slot, tip.slot_no) - rollbackWindowSlots);
+
+  // Collect every output the chain index knows about between the window start and the tip, keyed by its block
+  const chainIndex = getChainIndexProvider(network);
+  const onChainOutputs = new Set<string>();
+  for (const policy of network.policies) {
+    const response = await chainIndex.getMatches(policy, {
+      lastBlockHash: null,
+      lastCheckpointSlot: null,
+      queryParams: {
+        order: 'oldest_first',
+        created_after: fromSlot.toString(),
+        created_before: tip.slot_no.toString()
+      }
+    });
+    if (response === null)
+      throw new Error(`Unable to verify ${network.name} facts against the chain index after a rollback`);
+
+    for (const matches of response.transactions.values()) {
+      for (const match of matches) {
+        onChainOutputs.add(getOutputKey(match.transaction_id, match.output_index, match.created_at.header_hash));
+      }
+    }
+  }
+
+  // Any stored fact the chain index no longer has in the same block belongs to an orphaned fork
+  const storedFacts = await getFactsAfterSlot(network, fromSlot);
+  const orphanedFacts = storedFacts.filter(
+    (fact) => !onChainOutputs.has(getOutputKey(fact.transaction_id, fact.output_index, fact.block_hash))
+  );
+  // Without orphaned facts, only blocks after the tip were rolled back. A tip past the stored checkpoint means the
+  // checkpoint itself was forked away, so the sync resumes from the newest fact still on chain instead.
+  const firstOrphanedSlot = orphanedFacts.length > 0 ? orphanedFacts[0].slot : Infinity;
+  const intersection =
+    orphanedFacts.length === 0 && tip.slot_no <= network.last_checkpoint_slot
+      ? { slot: tip.slot_no, block_hash: tip.header_hash }
+      : storedFacts.filter((fact) => fact.slot < firstOrphanedSlot).pop();
+  const intersectionSlot = intersection?.slot ?? fromSlot;
+  const intersectionBlockHash = intersection?.block_hash ?? '';
+
+  if (orphanedFacts.length > 0) {
+    console.log(`Removing ${orphanedFacts.length} ${network.name} facts from an orphaned fork...`);
+    await deleteFactStatements(orphanedFacts);
+  }
+
+  const rollback = await createRollback({
+    network: network.id,
+    detected_at: new Date(),
+    previous_checkpoint_slot: network.last_checkpoint_slot,
+    previous_block_hash: network.last_block_hash,
+    tip_slot: tip.slot_no,
+    tip_block_hash: tip.header_hash,
+    intersection_slot: intersectionSlot,
+    intersection_block_hash: intersectionBlockHash,
+    orphaned_fact_urns: orphanedFacts.map((fact) => fact.fact_urn)
+  });
+
+  // Rewind the network checkpoint to the intersection
+  await updateNetwork({
+    id: network.id,
+    last_checkpoint_slot: intersectionSlot,
+    last_block_hash: intersectionBlockHash
+  });
+  network.last_checkpoint_slot = intersectionSlot;
+  network.last_block_hash = intersectionBlockHash;
+
+  rollbacksCounter.inc({ network: network.name });
+  orphanedFactsCounter.inc({ network: network.name }, orphanedFacts.length);
+  console.log(
+    `Rolled back ${network.name} to slot ${intersectionSlot}, removed ${orphanedFacts.length} orphaned facts`
+  );
+
+  return rollback;
+}
+
+function getOutputKey(transactionId: string, outputIndex: number, blockHash: string) {
+  return `${transactionId}#${outputIndex}@${blockHash}`;
+}
+
+// The policy that minted a match's fact token, from the `policyId.assetName` keys of its assets. Falls back to the
+// newest policy started at the match's slot when none of its assets belong to a known policy
+export function getMatchPolicy(network: Network, match: KupoMatch): Policy {
+  const policyIds = Object.keys(match.value.assets).map((asset) => asset.split('.')[0]);
+  const mintingPolicy = network.policies.find((policy) => policyIds.includes(policy.policy_id));
+  if (mintingPolicy) return mintingPolicy;
+
+  const policies = [...network.policies].sort((a, b) => b.starting_slot - a.starting_slot);
+  const slotPolicy =
+    policies.find((policy) => policy.starting_slot <= match.created_at.slot_no) ?? policies[policies.length - 1];
+  console.warn(
+    `No known ${network.name} policy minted ${match.transaction_id}#${match.output_index}, attributing it to ${slotPolicy.policy_id} by slot`
+  );
+  return slotPolicy;
+}
+
+// Re-derive the policy of every indexed fact from its match on the chain index and fix facts attributed to the
+// wrong policy. Returns the number of facts checked and the facts that were (or with dryRun, would be) repaired.
+export async function repairFactPolicies(
+  network: Network,
+  options: { dryRun?: boolean } = {}
+): Promise<{ checked: number; repaired: { fact: FactStatement; policy: Policy }[] }> {
+  const chainIndex = getChainIndexProvider(network);
+  const latestSlot = dateToSlot(new Date(), network);
+  const originSlot = Math.min(...network.policies.map((policy) => policy.starting_slot));
+  const repaired: { fact: FactStatement; policy: Policy }[] = [];
+  let checked = 0;
+
+  for (const policy of network.policies) {
+    console.info(`\nChecking ${network.name} facts minted by policy ${policy.policy_id}...`);
+
+    for (let currentSlot = originSlot; currentSlot < latestSlot; ) {
+      const queryEndSlot = Math.min(slotAfterTimePeriod(currentSlot, 'week', network), latestSlot);
+      const response = await chainIndex.streamMatches(policy, {
+        lastBlockHash: null,
+        lastCheckpointSlot: null,
+        queryParams: {
+          order: 'oldest_first',
+          created_after: currentSlot.toString(),
+          created_before: queryEndSlot.toString()
+        }
+      });
+      if (response === null) throw new Error(`Unable to fetch ${network.name} matches for policy ${policy.policy_id}`);
+
+      for await (const transactions of response.batches) {
+        const facts = await getFactsByTransactionIds(network, [...transactions.keys()]);
+        for (const fact of facts) {
+          const match = transactions.get(fact.transaction_id)?.find((m) => m.output_index === fact.output_index);
+          if (!match) continue;
+
+          checked++;
+          const matchPolicy = getMatchPolicy(network, match);
+          if (fact.policy === matchPolicy.id) continue;
+
+          repaired.push({ fact, policy: matchPolicy });
+          if (!options.dryRun) await updateFactStatement(fact.id, { policy: matchPolicy.id });
+        }
+      }
+
+      currentSlot = queryEndSlot;
+    }
+  }
+
+  return { checked, repaired };
+}
+
+// Fetch metadata and datums for each match and index them as Fact Statements, optionally only those of one feed.
+// Returns the facts as stored.
+export async function parseAndIndexMatches(
+  network: Network,
+  matchesByTx: KupoMatchesByTransaction,
+  options: { feedId?: string } = {}
+): Promise<FactStatement[]> {
+  const chainIndex = getChainIndexProvider(network);
+  const feeds = await fetchFeeds(network);
+  const factStatements: OnChainFactStatement[] = [];
+
+  for (const [txId, matches] of matchesByTx) {
+    // TODO: Unsure if all slots will be the same or not
+    if (matches.some((tx) => tx.created_at.slot_no !== matches[0].created_at.slot_no))
+      throw new Error('Not all matches have the same created_at.slot_no');
+
+    const metadata = await chainIndex.getTransactionMetadata(txId, matches[0].created_at.slot_no);
+    if (metadata === null) throw new Error('Failed to fetch metadata');
+
+    // Parse transaction metadata without ToS
+    const transactionMetadata = (
+      OrcfaxToSSchema.safeParse(metadata[0].schema[1226].list[0]).success
+        ? metadata[0].schema[1226].list.slice(1)
+        : metadata[0].schema[1226].list
+    ) as TransactionMetadata;
+
+    // Fetch, decode, and parse each datum
+    for (const [index, match] of matches.entries()) {
+      if (match.datum_hash === null) throw new Error('Expected datum hash but found none');
+
+      const serializedDatum = await chainIndex.getDatum(match.datum_hash);
+      if (serializedDatum === null) throw new Error('Expected datum hash but found none');
+      const datum = decodeDatum(serializedDatum);
+      if (options.feedId && datum.feed_id !== options.feedId) continue;
+
+      // Index feed if unindexed
+      if (!feeds.find((feed) => feed.feed_id === datum.feed_id)) {
+        console.log(`Indexing ${network.name} feed: ${datum.feed_id}`);
+
+        // Extract and get/create assets
+        const { base, quote } = extractTickersFromFeedName(datum.feed_name);
+        const assets = await getOrCreateAssets([base, quote]);
+        const baseAssetId = assets.find((asset: Asset) => asset.ticker === base)?.id;
+        const quoteAssetId = assets.find((asset: Asset) => asset.ticker === quote)?.id;
+        if (!baseAssetId || !quoteAssetId) {
+          throw new Error(`Failed to create assets for ${base} and ${quote}`);
+        }
+
+        const feed = await createFeed({
+          network: network.id,
+          feed_id: datum.feed_id,
+          type: datum.feed_type,
+          name: datum.feed_name,
+          version: parseInt(datum.feed_version),
+          status: 'inactive',
+          source_type: '',
+          funding_type: '',
+          calculation_method: '',
+          heartbeat_interval: 0,
+          deviation: 0,
+          base_asset: baseAssetId,
+          quote_asset: quoteAssetId
+        });
+        if (!feed) throw new Error('Failed to create feed');
+        else feeds.push(feed);
+      }
+      const feedID = feeds.find((feed) => feed.feed_id === datum.feed_id)?.id;
+      if (!feedID) throw new Error('Feed ID not found');
+
+      const policy = getMatchPolicy(network, match);
+
+      const fact_urn = transactionMetadata[index].map[0].v.string;
+      const statement_hash = blake2b(new Uint8Array(32).length)
+        .update(Buffer.from(`${datum.datum_hash}${fact_urn}`))
+        .digest('hex');
+      const arweaveFailureMessages = [
+        'arweave tx not created',
+        'send to Arkly feature is not currently enabled',
+        'urn:arweave:None'
+      ];
+      const storage_urn = transactionMetadata[index].map[1].v.string;
+
+      factStatements.push({
+        network: network.id,
+        policy: policy.id,
+        fact_urn,
+        storage_urn: arweaveFailureMessages.some((failureMessage) => storage_urn.includes(failureMessage))
+          ? ''
+          : storage_urn,
+        feed: feedID,
+        transaction_id: txId,
+        block_hash: match.created_at.header_hash,
+        slot: match.created_at.slot_no,
+        address: match.address,
+        value: datum.value,
+        value_inverse: datum.inverse_value,
+        validation_date: datum.validation_date,
+        publication_date: slotToDate(match.created_at.slot_no, network),
+        publication_cost: match.value.coins / 1_000_000,
+        output_index: match.output_index,
+        statement_hash,
+        storage_cost: 0
+      });
+    }
+  }
+
+  // Index the parsed fact statements of all transactions in a single batched write
+  if (factStatements.length === 0) return [];
+  console.info(`Indexing ${factStatements.length} ${network.name} facts from ${matchesByTx.size} transactions...`);
+  const result = await indexFactStatements(network, factStatements);
+  return [...result.inserted, ...result.updated];
+}
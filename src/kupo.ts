@@ -1,321 +1,135 @@
 import { z } from 'zod';
-import cbor from 'cbor';
-import {
-  createFeed,
-  fetchFeeds,
-  createPolicy,
-  fetchAndParse,
-  createNetwork,
-  updateNetwork,
-  getAllNetworks,
-  indexFactStatements,
-  deleteFactsOlderThanSlot
-} from './db.js';
 import {
   Policy,
-  Network,
   KupoMatch,
   DBNetwork,
-  DatumSchema,
-  FeedIdSchema,
-  PolicySchema,
-  FactStatement,
-  NetworkSchema,
-  OrcfaxToSSchema,
+  KupoCheckpoint,
   KupoMatchSchema,
-  CurrencyPairDatum,
   KupoMatchesSchema,
-  KupoDatumResponse,
+  KupoMatchesStream,
   KupoRequestOptions,
-  TransactionMetadata,
+  ChainIndexProvider,
   KupoMatchesResponse,
   KupoMetadataResponse,
+  KupoCheckpointSchema,
   KupoDatumResponseSchema,
   KupoMatchesByTransaction,
-  KupoMetadataResponseSchema,
-  NetworkSeed,
-  Asset
+  KupoMetadataResponseSchema
 } from './util/types.js';
-import blake2b from 'blake2b';
 import { logError } from './util/logger.js';
-import { dateToSlot, NetworkSeeds, slotAfterTimePeriod, slotToDate } from './util/network.js';
-import { syncFeeds, extractTickersFromFeedName, getOrCreateAssets } from './util/feeds.js';
-
-// Populate the index from scratch for a given network by
-// fetching time-based batches of matches from a Kupo instance
-export async function populateIndex(network: Network) {
-  console.info(`\nPopulating index for ${network.name}...`);
-
-  console.info(`\nPopulating active feeds for ${network.name}...`);
-  await syncFeeds(network);
-
-  let lastCheckpointSlot;
-  let lastBlockHash;
-  const policies = network.policies.sort((a, b) => a.starting_slot - b.starting_slot);
-
-  for (const policy of policies) {
-    console.info(`\nIndexing facts for ${network.name} policy: ${policy.policy_id}...`);
-    const latestSlot = dateToSlot(new Date(), network);
-    const originSlot = network.policies[0].starting_slot;
-    let currentSlot = originSlot;
-
-    while (currentSlot < latestSlot) {
-      const nextSlot = slotAfterTimePeriod(currentSlot, 'day', network);
-      const queryEndSlot = nextSlot < latestSlot ? nextSlot : latestSlot;
-
-      // TODO: Finish wiring up response streaming from Kupo
-      // await processJsonStream(url);
-
-      const response = await fetchMatchesFromKupo(
-        network,
-        {
-          lastBlockHash: null,
-          lastCheckpointSlot: null,
-          queryParams: {
-            order: 'oldest_first',
-            created_after: currentSlot.toString(),
-            created_before: queryEndSlot.toString()
-          }
-        },
-        policy
-      );
-
-      if (response === null) return;
-
-      // TODO: Index historical archives
-      await parseAndIndexMatches(network, response.transactions);
-
-      currentSlot = queryEndSlot;
-      lastBlockHash = response.lastBlockHash;
-      lastCheckpointSlot = response.lastCheckpointSlot;
-    }
-  }
-
-  // Create initial network query cache
-  await updateNetwork({
-    id: network.id,
-    last_checkpoint_slot: lastCheckpointSlot,
-    last_block_hash: lastBlockHash
-  });
-
-  console.info(`Index populated for ${network.name}`);
-}
+import { recordKupoExchange } from './util/kupo-fixtures.js';
+import { parseJsonArrayStream } from './util/json-stream.js';
+import { kupoNotModifiedCounter, kupoRequestDuration } from './util/metrics.js';
 
-export async function getNetworks(): Promise<Network[]> {
-  try {
-    const existingNetworks = await getAllNetworks();
-
-    // Check if any networks are missing and populate them if they are
-    const names = existingNetworks.map((network) => network.name);
-    const missingSeeds = NetworkSeeds.filter((seed) => !names.includes(seed.name));
-    const newlyPopulatedNetworks = await Promise.all(missingSeeds.map((seed) => populateNetwork(seed)));
-    const successfullyPopulatedNetworks = newlyPopulatedNetworks.filter(Boolean) as Network[];
-
-    return [...existingNetworks, ...successfullyPopulatedNetworks];
-  } catch (error) {
-    logError('Error while fetching or populating networks', error);
-    return [];
-  }
+// Chain index provider backed by a Kupo instance at the network's chain_index_base_url
+export function createKupoProvider(network: DBNetwork): ChainIndexProvider {
+  return {
+    getMatches: (policy, options) => fetchMatchesFromKupo(network, options, policy),
+    streamMatches: (policy, options) => streamMatchesFromKupo(network, options, policy),
+    getPointerMatches: (options) => fetchPointerMatchesFromKupo(network, options),
+    getDatum: (datumHash) => fetchDatumFromKupo(datumHash, network),
+    getTransactionMetadata: (transactionId, slot) => fetchTransactionMetadataFromKupo(transactionId, slot, network),
+    getCheckpoint: (slot) => fetchCheckpointFromKupo(slot, network),
+    getTip: () => fetchTipFromKupo(network)
+  };
 }
 
-async function populateNetwork(seed: NetworkSeed): Promise<Network | null> {
+export async function fetchMatchesFromKupo(
+  network: DBNetwork,
+  options: KupoRequestOptions, // Checkpoint slot and block hash should be sent for every sync iteration
+  policy: Policy
+): Promise<KupoMatchesResponse | null> {
   try {
-    if (!seed.is_enabled) return null;
-
-    const network = await createNetwork(seed);
-    if (!network) throw new Error(`Failed to create network: ${seed.name}`);
-    else console.info(`Created network: ${network.name}`);
-
-    const policies = await populatePolicyIDs(network, seed);
-    const populatedNetwork = NetworkSchema.parse({
-      ...network,
-      policies
-    });
+    const kupoResponse = await requestMatchesFromKupo(network, options, policy);
+    if (kupoResponse === null) return null;
+
+    // Process response
+    const data = await kupoResponse.response.json();
+    const matches = KupoMatchesSchema.parse(data);
+    const matchesCount = matches.length;
+    const matchesByTx = groupMatchesByTx(matches);
+
+    if (matchesCount > 0)
+      console.log(
+        `Found ${matchesCount} matches across ${matchesByTx.size} txs ${options?.queryParams?.created_before && options?.queryParams?.created_after ? `for slots ${options?.queryParams?.created_after} to ${options?.queryParams?.created_before}` : ''}`
+      );
 
-    return populatedNetwork;
+    return {
+      lastBlockHash: kupoResponse.lastBlockHash,
+      lastCheckpointSlot: kupoResponse.lastCheckpointSlot,
+      transactions: matchesByTx
+    };
   } catch (error) {
-    logError(`Error populating network: ${seed.name}`, error);
+    console.error('An error occurred while fetching transactions from Kupo', JSON.stringify(error, null, 2));
     return null;
   }
 }
 
-async function populatePolicyIDs(network: DBNetwork, seed: NetworkSeed): Promise<Policy[]> {
+// Stream matches from Kupo as batches of whole blocks, so large query windows are indexed with bounded memory
+export async function streamMatchesFromKupo(
+  network: DBNetwork,
+  options: KupoRequestOptions,
+  policy: Policy
+): Promise<KupoMatchesStream | null> {
   try {
-    // Fetch all policy ID matches from Kupo
-    const url = `${network.chain_index_base_url}/matches/*?policy_id=${network.fact_statement_pointer}&asset_name=${network.script_token}&order=oldest_first`;
-    const policyMatches = await fetchAndParse<KupoMatch[]>(url, z.array(KupoMatchSchema));
-
-    // Fetch and parse policies from datums
-    const policies = await Promise.all(
-      policyMatches.map(async (match) => {
-        const datumUrl = `${network.chain_index_base_url}/datums/${match.datum_hash}`;
-        const datumResponse = await fetchAndParse<KupoDatumResponse>(datumUrl, KupoDatumResponseSchema);
-        const datum = datumResponse.datum;
-        if (!datum) throw new Error('Datum from Kupo response was null');
-        const decoded = cbor.decodeFirstSync(datum);
-        const policy_id = decoded.toString('hex');
-
-        // Construct policy object
-        return {
-          network: network.id,
-          policy_id,
-          starting_slot: match.created_at.slot_no,
-          starting_block_hash: match.created_at.header_hash,
-          starting_date: slotToDate(match.created_at.slot_no, network)
-        };
-      })
-    );
-
-    // Filter out duplicate policy_id objects, keeping the first instance
-    const uniquePolicies = policies.filter(
-      (policy, index, self) => index === self.findIndex((p) => p.policy_id === policy.policy_id)
-    );
-
-    // Filter out policies to ignore from seed
-    const filteredPolicies = uniquePolicies.filter((policy) => !seed.ignore_policies.includes(policy.policy_id));
-
-    // Create policies
-    const createdPolicies = await Promise.all(filteredPolicies.map(createPolicy));
-    createdPolicies.forEach((policy) => console.log(`Created ${network.name} policy: ${policy.policy_id}`));
-    return createdPolicies;
+    const kupoResponse = await requestMatchesFromKupo(network, options, policy);
+    if (kupoResponse === null) return null;
+    if (!kupoResponse.response.body) throw new Error('Expected a response body from Kupo but found none');
+
+    return {
+      lastBlockHash: kupoResponse.lastBlockHash,
+      lastCheckpointSlot: kupoResponse.lastCheckpointSlot,
+      batches: batchMatchesByBlock(parseJsonArrayStream(kupoResponse.response.body))
+    };
   } catch (error) {
-    logError(`Error populating policy IDs for network ${network.name}`, error);
-    return [];
+    console.error('An error occurred while streaming transactions from Kupo', JSON.stringify(error, null, 2));
+    return null;
   }
 }
 
-export async function getOrCreateLatestPolicy(network: Network): Promise<Policy> {
-  try {
-    // Get current cached policy ID
-    if (network.policies.length === 0)
-      throw new Error(`No policies found for network: ${network.name}. There should be at least one policy.`);
-    const currentPolicy = network.policies.sort((a, b) => b.starting_slot - a.starting_slot)[0];
-
-    // Fetch latest policy ID from Kupo
-    const url = `${network.chain_index_base_url}/matches/*?policy_id=${network.fact_statement_pointer}&unspent&asset_name=${network.script_token}&order=most_recent_first`;
-    const policyMatches = await fetchAndParse<KupoMatch[]>(url, z.array(KupoMatchSchema));
-    if (!policyMatches || policyMatches.length === 0) throw new Error('No matches found from Kupo');
-    const datumUrl = `${network.chain_index_base_url}/datums/${policyMatches[0].datum_hash}`;
-    const datumResponse = await fetchAndParse<KupoDatumResponse>(datumUrl, KupoDatumResponseSchema);
-    if (!datumResponse.datum) throw new Error('Datum from Kupo response was null');
-    const decoded = cbor.decodeFirstSync(datumResponse.datum);
-    const fetchedPolicyID = decoded.toString('hex');
-
-    // Skip if the new policy has the same policy ID as an existing policy
-    const policyAlreadyExists = network.policies.some((policy) => policy.policy_id === fetchedPolicyID);
-
-    // Handle FSP policy ID change
-    if (policyAlreadyExists) {
-      return currentPolicy;
-    } else {
-      console.info(`Detected ${network.name} FSP change...`);
-      const newPolicy = PolicySchema.omit({ id: true }).parse({
-        network: network.id,
-        policy_id: fetchedPolicyID,
-        starting_slot: policyMatches[0].created_at.slot_no,
-        starting_block_hash: policyMatches[0].created_at.header_hash,
-        starting_date: slotToDate(policyMatches[0].created_at.slot_no, network)
-      });
-      const createdPolicy = await createPolicy(newPolicy);
-      console.info(`Created new ${network.name} policy: ${createdPolicy.policy_id}`);
-      return createdPolicy;
-    }
-  } catch (error) {
-    logError(`Error retrieving or indexing the latest policy ID for network ${network.name}`, error);
-    throw error;
+async function requestMatchesFromKupo(
+  network: DBNetwork,
+  options: KupoRequestOptions,
+  policy: Policy
+): Promise<{ response: Response; lastBlockHash: string; lastCheckpointSlot: number } | null> {
+  const endTimer = kupoRequestDuration.startTimer({ network: network.name, endpoint: 'matches' });
+  const response = await fetchFromKupo(
+    network,
+    `/matches/${policy.policy_id}.*?${options.queryParams ? new URLSearchParams(options.queryParams) : ''}`,
+    options.lastBlockHash
+  );
+  endTimer({ status: response.status });
+
+  if (response.status === 304) {
+    kupoNotModifiedCounter.inc({ network: network.name });
+    console.log('No new blocks to fetch from Kupo');
+    return null;
   }
-}
-
-// Sync latest matches for a given network from a Kupo instance
-export async function syncFactStatements(
-  network: Network,
-  options?: KupoRequestOptions
-): Promise<{ lastCheckpointSlot: number; lastBlockHash: string }> {
-  const requestOptions = options || {
-    lastBlockHash: network.last_block_hash,
-    lastCheckpointSlot: network.last_checkpoint_slot,
-    queryParams: {
-      order: 'oldest_first',
-      created_after: network.last_checkpoint_slot.toString()
-    }
-  };
-
-  const response = await fetchMatchesFromKupo(network, requestOptions);
-  if (response === null)
-    return { lastCheckpointSlot: network.last_checkpoint_slot, lastBlockHash: network.last_block_hash };
-
-  await parseAndIndexMatches(network, response.transactions);
 
-  // Update network query cache
-  await updateNetwork({
-    id: network.id,
-    last_checkpoint_slot: response.lastCheckpointSlot,
-    last_block_hash: response.lastBlockHash
-  });
+  const mostRecentCheckpointSlot = parseInt(response.headers.get('x-most-recent-checkpoint') || '0');
+  const mostRecentBlockHash = response.headers.get('etag') || '';
+  if (mostRecentCheckpointSlot === 0 || mostRecentBlockHash === '')
+    throw new Error('Expected checkpoint slot and block hash but found none');
 
-  return { lastCheckpointSlot: response.lastCheckpointSlot, lastBlockHash: response.lastBlockHash };
+  return { response, lastBlockHash: mostRecentBlockHash, lastCheckpointSlot: mostRecentCheckpointSlot };
 }
 
-export async function fetchMatchesFromKupo(
-  network: Network,
-  options: KupoRequestOptions, // Checkpoint slot and block hash should be sent for every sync iteration
-  policy?: Policy
-): Promise<KupoMatchesResponse | null> {
-  try {
-    const policyToSearch = policy ?? network.policies.sort((a, b) => b.starting_slot - a.starting_slot)[0];
-    const response = await fetch(
-      `${network.chain_index_base_url}/matches/${policyToSearch.policy_id}.*?${options.queryParams ? new URLSearchParams(options.queryParams) : ''}`,
-      {
-        headers: {
-          ...(options.lastBlockHash ? { 'If-None-Match': options.lastBlockHash } : {})
-        }
-      }
-    );
-
-    if (response.status === 304) {
-      console.log('No new blocks to fetch from Kupo');
-      return null;
-    } else {
-      const mostRecentCheckpointSlot = parseInt(response.headers.get('x-most-recent-checkpoint') || '0');
-      const mostRecentBlockHash = response.headers.get('etag') || '';
-      if (mostRecentCheckpointSlot === 0 || mostRecentBlockHash === '')
-        throw new Error('Expected checkpoint slot and block hash but found none');
-
-      // console.log(
-      //   `Reported checkpoint slot: ${mostRecentCheckpointSlot}, block hash: ${mostRecentBlockHash} from Kupo.`
-      // );
-      // console.log(
-      //   `Stored checkpoint slot: ${options.lastCheckpointSlot}, block hash: ${options.lastBlockHash} from DB.`
-      // );
-
-      // Handle chain rollback if any
-      if (options.lastCheckpointSlot && mostRecentCheckpointSlot < options.lastCheckpointSlot) {
-        console.log('Chain rollback detected. Deleting facts older than the most recent checkpoint slot.');
-        // TODO maybe update would be better. Also, need to verify if this is the correct approach
-        await deleteFactsOlderThanSlot(network, mostRecentCheckpointSlot);
-      }
+async function* batchMatchesByBlock(items: AsyncIterable<unknown>): AsyncGenerator<KupoMatchesByTransaction> {
+  const batchSize = Number(process.env.KUPO_STREAM_BATCH_SIZE) || 500;
+  let batch: KupoMatch[] = [];
 
-      // Process response
-      const data = await response.json();
-      const matches = KupoMatchesSchema.parse(data);
-      const matchesCount = matches.length;
-      const matchesByTx = groupMatchesByTx(matches);
+  for await (const item of items) {
+    const match = KupoMatchSchema.parse(item);
 
-      if (matchesCount > 0)
-        console.log(
-          `Found ${matchesCount} matches across ${matchesByTx.size} txs ${options?.queryParams?.created_before && options?.queryParams?.created_after ? `for slots ${options?.queryParams?.created_after} to ${options?.queryParams?.created_before}` : ''}`
-        );
-
-      return {
-        lastBlockHash: mostRecentBlockHash,
-        lastCheckpointSlot: mostRecentCheckpointSlot,
-        transactions: matchesByTx
-      };
+    // Only split between blocks so all matches of a transaction end up in the same batch
+    if (batch.length >= batchSize && match.created_at.slot_no !== batch[batch.length - 1].created_at.slot_no) {
+      yield groupMatchesByTx(batch);
+      batch = [];
     }
-  } catch (error) {
-    console.error('An error occurred while fetching transactions from Kupo', JSON.stringify(error, null, 2));
-    return null;
+    batch.push(match);
   }
+
+  if (batch.length > 0) yield groupMatchesByTx(batch);
 }
 
 function groupMatchesByTx(matches: KupoMatch[]): KupoMatchesByTransaction {
@@ -338,123 +152,45 @@ function groupMatchesByTx(matches: KupoMatch[]): KupoMatchesByTransaction {
   return resultMap;
 }
 
-// Fetch metadata and datums for each match and index them as Fact Statements
-export async function parseAndIndexMatches(network: Network, matchesByTx: KupoMatchesByTransaction) {
-  const feeds = await fetchFeeds(network);
-
-  for (const [txId, matches] of matchesByTx) {
-    const factStatements: Omit<
-      FactStatement,
-      'id' | 'participating_nodes' | 'sources' | 'content_signature' | 'collection_date'
-    >[] = [];
-
-    // TODO: Unsure if all slots will be the same or not
-    if (matches.some((tx) => tx.created_at.slot_no !== matches[0].created_at.slot_no))
-      throw new Error('Not all matches have the same created_at.slot_no');
-
-    const metadata = await fetchTransactionMetadataFromKupo(txId, matches[0].created_at.slot_no, network);
-    if (metadata === null) throw new Error('Failed to fetch metadata');
-
-    // Parse transaction metadata without ToS
-    const transactionMetadata = (
-      OrcfaxToSSchema.safeParse(metadata[0].schema[1226].list[0]).success
-        ? metadata[0].schema[1226].list.slice(1)
-        : metadata[0].schema[1226].list
-    ) as TransactionMetadata;
-
-    // Fetch, decode, and parse each datum
-    for (const [index, match] of matches.entries()) {
-      if (match.datum_hash === null) throw new Error('Expected datum hash but found none');
-
-      const datum = await fetchDatumFromKupo(match.datum_hash, network);
-      if (datum === null) throw new Error('Expected datum hash but found none');
-
-      // Index feed if unindexed
-      if (!feeds.find((feed) => feed.feed_id === datum.feed_id)) {
-        console.log(`Indexing ${network.name} feed: ${datum.feed_id}`);
-
-        // Extract and get/create assets
-        const { base, quote } = extractTickersFromFeedName(datum.feed_name);
-        const assets = await getOrCreateAssets([base, quote]);
-        const baseAssetId = assets.find((asset: Asset) => asset.ticker === base)?.id;
-        const quoteAssetId = assets.find((asset: Asset) => asset.ticker === quote)?.id;
-        if (!baseAssetId || !quoteAssetId) {
-          throw new Error(`Failed to create assets for ${base} and ${quote}`);
-        }
-
-        const feed = await createFeed({
-          network: network.id,
-          feed_id: datum.feed_id,
-          type: datum.feed_type,
-          name: datum.feed_name,
-          version: parseInt(datum.feed_version),
-          status: 'inactive',
-          source_type: '',
-          funding_type: '',
-          calculation_method: '',
-          heartbeat_interval: 0,
-          deviation: 0,
-          base_asset: baseAssetId,
-          quote_asset: quoteAssetId
-        });
-        if (!feed) throw new Error('Failed to create feed');
-        else feeds.push(feed);
-      }
-      const feedID = feeds.find((feed) => feed.feed_id === datum.feed_id)?.id;
-      if (!feedID) throw new Error('Feed ID not found');
-
-      const latestPolicy = network.policies.sort((a, b) => b.starting_slot - a.starting_slot)[0];
-
-      const fact_urn = transactionMetadata[index].map[0].v.string;
-      const statement_hash = blake2b(new Uint8Array(32).length)
-        .update(Buffer.from(`${datum.datum_hash}${fact_urn}`))
-        .digest('hex');
-      const arweaveFailureMessages = [
-        'arweave tx not created',
-        'send to Arkly feature is not currently enabled',
-        'urn:arweave:None'
-      ];
-      const storage_urn = transactionMetadata[index].map[1].v.string;
+// Fetch the UTxOs holding the Fact Statement Pointer token, whose datums point to the active policy ID
+export async function fetchPointerMatchesFromKupo(
+  network: DBNetwork,
+  options: { unspent: boolean; order: 'oldest_first' | 'most_recent_first' }
+): Promise<KupoMatch[]> {
+  const path = `/matches/*?policy_id=${network.fact_statement_pointer}${options.unspent ? '&unspent' : ''}&asset_name=${network.script_token}&order=${options.order}`;
+  return fetchAndParseFromKupo<KupoMatch[]>(network, path, z.array(KupoMatchSchema));
+}
 
-      factStatements.push({
-        network: network.id,
-        policy: latestPolicy.id,
-        fact_urn,
-        storage_urn: arweaveFailureMessages.some((failureMessage) => storage_urn.includes(failureMessage))
-          ? ''
-          : storage_urn,
-        feed: feedID,
-        transaction_id: txId,
-        block_hash: match.created_at.header_hash,
-        slot: match.created_at.slot_no,
-        address: match.address,
-        value: datum.value,
-        value_inverse: datum.inverse_value,
-        validation_date: datum.validation_date,
-        publication_date: slotToDate(match.created_at.slot_no, network),
-        publication_cost: match.value.coins / 1_000_000,
-        output_index: match.output_index,
-        statement_hash,
-        storage_cost: 0,
-        is_archive_indexed: false
-      });
-    }
+export async function fetchCheckpointFromKupo(slot: number, network: DBNetwork): Promise<KupoCheckpoint | null> {
+  return fetchAndParseFromKupo<KupoCheckpoint | null>(
+    network,
+    `/checkpoints/${slot}?strict`,
+    KupoCheckpointSchema.nullable()
+  );
+}
 
-    // Index the transaction's parsed fact statements
-    console.info(`Indexing ${factStatements.length} ${network.name} facts from tx: ${txId}...`);
-    await indexFactStatements(factStatements);
-  }
+export async function fetchTipFromKupo(network: DBNetwork): Promise<KupoCheckpoint> {
+  const checkpoints = await fetchAndParseFromKupo<KupoCheckpoint[]>(
+    network,
+    '/checkpoints',
+    z.array(KupoCheckpointSchema)
+  );
+  if (checkpoints.length === 0) throw new Error(`No checkpoints found from Kupo for ${network.name}`);
+  return checkpoints.sort((a, b) => b.slot_no - a.slot_no)[0];
 }
 
 export async function fetchTransactionMetadataFromKupo(
   transactionId: string,
   slot: number,
-  network: Network
+  network: DBNetwork
 ): Promise<KupoMetadataResponse | null> {
   try {
-    const response = await fetch(
-      `${network.chain_index_base_url}/metadata/${slot}?${new URLSearchParams({ transaction_id: transactionId })}`
+    const endTimer = kupoRequestDuration.startTimer({ network: network.name, endpoint: 'metadata' });
+    const response = await fetchFromKupo(
+      network,
+      `/metadata/${slot}?${new URLSearchParams({ transaction_id: transactionId })}`
     );
+    endTimer({ status: response.status });
     const data = await response.json();
     const metadata = KupoMetadataResponseSchema.parse(data);
     return metadata;
@@ -464,64 +200,36 @@ export async function fetchTransactionMetadataFromKupo(
   }
 }
 
-export async function fetchDatumFromKupo(datumHash: string, network: Network): Promise<CurrencyPairDatum | null> {
+export async function fetchDatumFromKupo(datumHash: string, network: DBNetwork): Promise<string | null> {
   try {
-    const response = await fetch(`${network.chain_index_base_url}/datums/${datumHash}`);
+    const endTimer = kupoRequestDuration.startTimer({ network: network.name, endpoint: 'datums' });
+    const response = await fetchFromKupo(network, `/datums/${datumHash}`);
+    endTimer({ status: response.status });
     const data = await response.json();
     const datumResponse = KupoDatumResponseSchema.parse(data);
     if (datumResponse.datum === null) throw new Error('Datum from Kupo response was null');
-    const newDatum = decodeDatum(datumResponse.datum);
-    return newDatum;
+    return datumResponse.datum;
   } catch (error) {
     console.error('An error occurred while fetching datum from Kupo', JSON.stringify(error, null, 2));
     return null;
   }
 }
 
-function decodeDatum(serializedDatum: string): CurrencyPairDatum {
-  const tags = {
-    121: (val: unknown) => {
-      // Assuming the value associated with tag 121 is an array
-      if (Array.isArray(val)) {
-        return val.map((item) => {
-          if (item instanceof cbor.Tagged) {
-            return item.value; // Recursively handle nested Tagged instances.
-          }
-          return item;
-        });
-      }
-      return val;
-    }
-  };
-
-  const decoded = cbor.decodeFirstSync(serializedDatum, { tags });
-  const datum = DatumSchema.parse(decoded);
-
-  // Process datum
-  const feed_id = FeedIdSchema.parse(datum[0][0]);
-  const feed_type = feed_id.split('/')[0];
-  const feed_name = feed_id.split('/')[1];
-  const feed_version = feed_id.split('/')[2];
-  const base_ticker = feed_id.split('/')[1].split('-')[0];
-  const quote_ticker = feed_id.split('/')[1].split('-')[1];
-  const validation_date = new Date(datum[0][1]);
-  const numerator = datum[0][2][0];
-  const denominator = datum[0][2][1];
-  const value = +(numerator / denominator);
-  const formattedValue = value < 0.000001 ? +value.toFixed(10) : +value.toFixed(6);
-  const inverse_value = +(1 / formattedValue);
-  const datum_hash = decoded[0];
+// Send a request to the network's Kupo instance, recording the exchange when KUPO_RECORD_DIR is set
+async function fetchFromKupo(network: DBNetwork, path: string, ifNoneMatch?: string | null): Promise<Response> {
+  const response = await fetch(`${network.chain_index_base_url}${path}`, {
+    headers: ifNoneMatch ? { 'If-None-Match': ifNoneMatch } : {}
+  });
+  return recordKupoExchange(network, path, ifNoneMatch ?? null, response);
+}
 
-  return {
-    feed_id,
-    feed_type,
-    feed_name,
-    feed_version,
-    base_ticker,
-    quote_ticker,
-    validation_date,
-    value,
-    datum_hash,
-    inverse_value
-  };
+async function fetchAndParseFromKupo<T>(network: DBNetwork, path: string, responseSchema: z.ZodSchema): Promise<T> {
+  try {
+    const response = await fetchFromKupo(network, path);
+    const data = await response.json();
+    return responseSchema.parse(data) as T;
+  } catch (error) {
+    logError(`Error fetching or parsing data from Kupo ${path}`, error);
+    throw error;
+  }
 }
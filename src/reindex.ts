@@ -0,0 +1,76 @@
+import { getChainIndexProvider } from './chain-index.js';
+import { parseAndIndexMatches } from './indexer.js';
+import { deleteFactStatements, fetchFeeds, getFactsBetweenSlots, resetFactArchives } from './db.js';
+import { indexArchives } from './util/archives.js';
+import { slotAfterTimePeriod } from './util/network.js';
+import { Network } from './util/types.js';
+
+// Re-run ingestion for a slot range a day at a time, optionally for a single policy (by policy ID) and feed (by feed
+// ID), without moving the network checkpoint. Existing facts are updated in place. With replace, their archive data
+// is cleared too, and facts that are no longer on chain are deleted once the matches have been stored. The archives
+// of unarchived facts are then indexed, as the archive backfill's cursor may already be past them. With dryRun nothing
+// is written, and the matches and facts that would be reindexed are only counted.
+export async function reindexRange(
+  network: Network,
+  options: { fromSlot: number; toSlot: number; policyId?: string; feedId?: string; replace?: boolean; dryRun?: boolean }
+): Promise<{
+  matches: number;
+  existing_facts: number;
+  deleted_facts: number;
+  indexed_facts: number;
+  indexed_archives: number;
+}> {
+  const policies = network.policies.filter((policy) => !options.policyId || policy.policy_id === options.policyId);
+  if (policies.length === 0) throw new Error(`Policy ${options.policyId} not found for ${network.name}`);
+
+  const feeds = await fetchFeeds(network);
+  const feed = options.feedId ? feeds.find((feed) => feed.feed_id === options.feedId) : undefined;
+  if (options.feedId && !feed) throw new Error(`Feed ${options.feedId} not found for ${network.name}`);
+
+  const chainIndex = getChainIndexProvider(network);
+  const summary = { matches: 0, existing_facts: 0, deleted_facts: 0, indexed_facts: 0, indexed_archives: 0 };
+
+  for (let currentSlot = options.fromSlot; currentSlot < options.toSlot; ) {
+    const queryEndSlot = Math.min(slotAfterTimePeriod(currentSlot, 'day', network), options.toSlot);
+    const facts = (await getFactsBetweenSlots(network, currentSlot, queryEndSlot)).filter(
+      (fact) => policies.some((policy) => policy.id === fact.policy) && (!feed || fact.feed === feed.id)
+    );
+    summary.existing_facts += facts.length;
+
+    for (const policy of policies) {
+      const response = await chainIndex.getMatches(policy, {
+        lastBlockHash: null,
+        lastCheckpointSlot: null,
+        queryParams: {
+          order: 'oldest_first',
+          created_after: currentSlot.toString(),
+          created_before: queryEndSlot.toString()
+        }
+      });
+      if (response === null)
+        throw new Error(`Unable to fetch ${network.name} matches for slots ${currentSlot} to ${queryEndSlot}`);
+
+      summary.matches += [...response.transactions.values()].reduce((count, matches) => count + matches.length, 0);
+      if (options.dryRun) continue;
+
+      let indexed = await parseAndIndexMatches(network, response.transactions, { feedId: options.feedId });
+      summary.indexed_facts += indexed.length;
+
+      // Only delete the policy's facts in the window once the matches they're replaced with are stored
+      if (options.replace) {
+        const indexedIds = new Set(indexed.map((fact) => fact.id));
+        const staleFacts = facts.filter((fact) => fact.policy === policy.id && !indexedIds.has(fact.id));
+        if (staleFacts.length > 0) await deleteFactStatements(staleFacts);
+        summary.deleted_facts += staleFacts.length;
+        indexed = await resetFactArchives(indexed);
+      }
+
+      const unarchived = indexed.filter((fact) => !fact.is_archive_indexed);
+      if (network.is_archive_enabled) summary.indexed_archives += (await indexArchives(network, unarchived)).indexed;
+    }
+
+    currentSlot = queryEndSlot;
+  }
+
+  return summary;
+}
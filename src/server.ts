@@ -0,0 +1,52 @@
+import express from 'express';
+import { logError } from './util/logger.js';
+import { metricsRegistry } from './util/metrics.js';
+import { getIndexStatus, getStalledNetworks, isIndexReady } from './util/status.js';
+
+// Serve health, readiness, status and metrics routes for the deploy platform and operators
+export function initServer() {
+  const port = Number(process.env.PORT) || 3000;
+  const app = express();
+
+  // Liveness: fails when a network sync has been running for longer than SYNC_STALL_MINUTES
+  app.get('/healthz', (_req, res) => {
+    const stalledNetworks = getStalledNetworks();
+    if (stalledNetworks.length > 0) {
+      res.status(503).json({ status: 'stalled', stalled_networks: stalledNetworks });
+      return;
+    }
+    res.json({ status: 'ok' });
+  });
+
+  // Readiness: fails until the networks are set up, the index is populated and cron jobs are running
+  app.get('/readyz', (_req, res) => {
+    if (!isIndexReady()) {
+      res.status(503).json({ status: 'starting' });
+      return;
+    }
+    res.json({ status: 'ready' });
+  });
+
+  app.get('/status', (_req, res) => {
+    res.json(getIndexStatus());
+  });
+
+  app.get('/metrics', async (_req, res) => {
+    try {
+      res.set('Content-Type', metricsRegistry.contentType);
+      res.end(await metricsRegistry.metrics());
+    } catch (error) {
+      logError('Error collecting metrics', error);
+      res.status(500).end();
+    }
+  });
+
+  const server = app.listen(port, () => {
+    console.info(`\nStatus server listening on port ${port}...`);
+  });
+  server.on('error', (error) => {
+    logError('Status server error', error);
+  });
+
+  return server;
+}
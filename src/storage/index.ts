@@ -0,0 +1,26 @@
+import { createSQLiteStorage } from './sqlite.js';
+import { createPocketBaseStorage } from './pocketbase.js';
+import { Storage, StorageBackend, StorageBackendSchema } from '../util/types.js';
+
+export { DuplicateRecordError } from './repository.js';
+
+const storageFactories: Record<StorageBackend, () => Promise<Storage>> = {
+  pocketbase: createPocketBaseStorage,
+  sqlite: createSQLiteStorage
+};
+
+let storage: Promise<Storage> | null = null;
+
+// Connect to the backend selected by STORAGE_BACKEND (PocketBase by default) on first use
+export function getStorage(): Promise<Storage> {
+  if (!storage) {
+    const backend = StorageBackendSchema.parse(process.env.STORAGE_BACKEND || 'pocketbase');
+    storage = storageFactories[backend]().catch((error) => {
+      // Allow the next call to retry, e.g. when PocketBase was not reachable yet
+      storage = null;
+      throw error;
+    });
+  }
+
+  return storage;
+}
@@ -0,0 +1,206 @@
+import PocketBase, { ClientResponseError } from 'pocketbase';
+import { DuplicateRecordError, RecordSchema, getFieldComparisons, uniqueByKey } from './repository.js';
+import {
+  ArchiveRetrySchema,
+  FSPChangeSchema,
+  AssetSchema,
+  DBNetworkSchema,
+  DiscrepancySchema,
+  FactBagInfoSchema,
+  FactStatementSchema,
+  FeedSchema,
+  FilterValue,
+  JobStateSchema,
+  NodeSchema,
+  PolicySchema,
+  RecordFilter,
+  RecordInput,
+  Repository,
+  RollbackSchema,
+  SourceSchema,
+  SourceObservationSchema,
+  SourceOutlierStatsSchema,
+  Storage,
+  UpsertResult
+} from '../util/types.js';
+
+// Matches PocketBase's default limit of requests per batch
+const BATCH_SIZE = 50;
+
+const OPERATORS = { eq: '=', ne: '!=', gt: '>', gte: '>=', lt: '<', lte: '<=' } as const;
+
+export async function createPocketBaseStorage(): Promise<Storage> {
+  const { DB_HOST, DB_EMAIL, DB_PASSWORD } = process.env;
+  if (!DB_HOST || !DB_EMAIL || !DB_PASSWORD)
+    throw new Error('Missing required env vars: DB_HOST, DB_EMAIL, DB_PASSWORD');
+
+  const pb = new PocketBase(DB_HOST);
+  await pb.collection('_superusers').authWithPassword(DB_EMAIL, DB_PASSWORD);
+  console.info(`Connected to PocketBase at ${DB_HOST}`);
+
+  return {
+    facts: createPocketBaseRepository(pb, 'facts', FactStatementSchema),
+    feeds: createPocketBaseRepository(pb, 'feeds', FeedSchema),
+    policies: createPocketBaseRepository(pb, 'policies', PolicySchema),
+    networks: createPocketBaseRepository(pb, 'networks', DBNetworkSchema),
+    nodes: createPocketBaseRepository(pb, 'nodes', NodeSchema),
+    sources: createPocketBaseRepository(pb, 'sources', SourceSchema),
+    assets: createPocketBaseRepository(pb, 'assets', AssetSchema),
+    rollbacks: createPocketBaseRepository(pb, 'rollbacks', RollbackSchema),
+    jobStates: createPocketBaseRepository(pb, 'job_states', JobStateSchema),
+    bagInfos: createPocketBaseRepository(pb, 'bag_infos', FactBagInfoSchema),
+    discrepancies: createPocketBaseRepository(pb, 'discrepancies', DiscrepancySchema),
+    sourceObservations: createPocketBaseRepository(pb, 'source_observations', SourceObservationSchema),
+    sourceOutlierStats: createPocketBaseRepository(pb, 'source_outlier_stats', SourceOutlierStatsSchema),
+    archiveRetries: createPocketBaseRepository(pb, 'archive_retries', ArchiveRetrySchema),
+    fspChanges: createPocketBaseRepository(pb, 'fsp_changes', FSPChangeSchema)
+  };
+}
+
+function createPocketBaseRepository<T extends { id: string }>(
+  pb: PocketBase,
+  collection: string,
+  schema: RecordSchema<T>
+): Repository<T> {
+  // Requests are made concurrently by the indexer, so auto-cancellation of duplicate requests is disabled
+  const records = () => pb.collection(collection);
+
+  const repository: Repository<T> = {
+    async getById(id) {
+      try {
+        return schema.parse(await records().getOne(id, { $autoCancel: false }));
+      } catch (error) {
+        if (error instanceof ClientResponseError && error.status === 404) return null;
+        throw error;
+      }
+    },
+
+    async findFirst(options = {}) {
+      const response = await records().getList(1, 1, {
+        filter: buildFilter(pb, options.filter),
+        sort: options.sort,
+        skipTotal: true,
+        $autoCancel: false
+      });
+      return response.items.length ? schema.parse(response.items[0]) : null;
+    },
+
+    async findAll(options = {}) {
+      const listOptions = { filter: buildFilter(pb, options.filter), sort: options.sort, $autoCancel: false };
+      const items = options.limit
+        ? (await records().getList(1, options.limit, { ...listOptions, skipTotal: true })).items
+        : await records().getFullList(listOptions);
+      return items.map((item) => schema.parse(item));
+    },
+
+    async count(filter) {
+      const response = await records().getList(1, 1, { filter: buildFilter(pb, filter), $autoCancel: false });
+      return response.totalItems;
+    },
+
+    async create(record) {
+      try {
+        return schema.parse(await records().create(record, { $autoCancel: false }));
+      } catch (error) {
+        if (isNotUniqueError(error)) throw new DuplicateRecordError(collection, error);
+        throw error;
+      }
+    },
+
+    async update(id, changes) {
+      return schema.parse(await records().update(id, changes, { $autoCancel: false }));
+    },
+
+    async upsertMany(items, key) {
+      const result: UpsertResult<T> = { inserted: [], updated: [], failed: [] };
+      const getKey = (item: RecordInput<T>) => (item as Partial<T>)[key];
+
+      const uniqueItems = uniqueByKey(items, key);
+      for (let i = 0; i < uniqueItems.length; i += BATCH_SIZE) {
+        const chunk = uniqueItems.slice(i, i + BATCH_SIZE);
+        const filter = { [key]: { in: chunk.map(getKey) as FilterValue[] } } as RecordFilter<T>;
+        const existingIds = new Map<unknown, string>(
+          (await repository.findAll({ filter })).map((record) => [record[key], record.id])
+        );
+
+        try {
+          const batch = pb.createBatch();
+          for (const item of chunk) {
+            const id = existingIds.get(getKey(item));
+            if (id) batch.collection(collection).update(id, item);
+            else batch.collection(collection).create(item);
+          }
+
+          const responses = await batch.send({ $autoCancel: false });
+          responses.forEach((response, j) => {
+            const written = schema.parse(response.body);
+            if (existingIds.has(getKey(chunk[j]))) result.updated.push(written);
+            else result.inserted.push(written);
+          });
+        } catch (error) {
+          // Falling back to single writes here would hide the misconfiguration behind much slower upserts
+          if (isBatchDisabledError(error))
+            throw new Error(
+              `PocketBase batch API is disabled, enable it under Settings > Application with at least ${BATCH_SIZE} max requests to write to ${collection}`
+            );
+
+          // Batches are applied in a single transaction, so write the records one by one to find the ones that fail
+          console.warn(`Batch write to ${collection} failed, retrying ${chunk.length} records individually`);
+          for (const item of chunk) {
+            try {
+              const id = existingIds.get(getKey(item));
+              if (id) result.updated.push(await repository.update(id, item));
+              else result.inserted.push(await repository.create(item));
+            } catch (error) {
+              result.failed.push({ record: item, error });
+            }
+          }
+        }
+      }
+
+      return result;
+    },
+
+    async delete(id) {
+      await records().delete(id, { $autoCancel: false });
+    }
+  };
+
+  return repository;
+}
+
+// Build a PocketBase filter expression, binding values as parameters so they are escaped by the SDK
+function buildFilter<T>(pb: PocketBase, filter?: RecordFilter<T>): string {
+  const params: Record<string, unknown> = {};
+
+  const clauses = getFieldComparisons(filter).map(({ field, operator, value }, i) => {
+    if (operator === 'in') {
+      const values = value as unknown[];
+      if (values.length === 0) return 'id = ""';
+      values.forEach((val, j) => (params[`p${i}_${j}`] = val));
+      return `(${values.map((_, j) => `${field} = {:p${i}_${j}}`).join(' || ')})`;
+    }
+
+    params[`p${i}`] = value;
+    return `${field} ${OPERATORS[operator]} {:p${i}}`;
+  });
+
+  return pb.filter(clauses.join(' && '), params);
+}
+
+// PocketBase answers 403 Forbidden to every batch request while the batch API is disabled in its settings
+function isBatchDisabledError(error: unknown): boolean {
+  return error instanceof ClientResponseError && error.status === 403;
+}
+
+function isNotUniqueError(error: unknown): boolean {
+  const data = error instanceof ClientResponseError ? error.response?.data : null;
+  if (!data || typeof data !== 'object') return false;
+  return Object.values(data).some(
+    (value: unknown) =>
+      typeof value === 'object' &&
+      value !== null &&
+      'code' in value &&
+      (value as Record<string, unknown>).code === 'validation_not_unique'
+  );
+}
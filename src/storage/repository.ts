@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { FieldCondition, FilterValue, RecordFilter, RecordInput } from '../util/types.js';
+
+export type RecordSchema<T> = z.ZodObject<z.ZodRawShape, z.UnknownKeysParam, z.ZodTypeAny, T>;
+
+export type ComparisonOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'in';
+
+export interface FieldComparison {
+  field: string;
+  operator: ComparisonOperator;
+  value: FilterValue | FilterValue[];
+}
+
+// Raised by Repository.create when a unique field (e.g. a fact's statement_hash) is already taken
+export class DuplicateRecordError extends Error {
+  constructor(collection: string, cause?: unknown) {
+    super(`Duplicate record in ${collection}`, { cause });
+    this.name = 'DuplicateRecordError';
+  }
+}
+
+// Flatten a record filter into one comparison per field and operator
+export function getFieldComparisons<T>(filter: RecordFilter<T> = {}): FieldComparison[] {
+  return Object.entries(filter).flatMap(([field, condition]) => {
+    if (!/^[a-z_][a-z0-9_]*$/i.test(field)) throw new Error(`Invalid filter field: ${field}`);
+    if (condition === undefined) return [];
+
+    if (!isConditionObject(condition as FieldCondition)) {
+      return [{ field, operator: 'eq' as const, value: condition as FilterValue }];
+    }
+
+    return Object.entries(condition as object)
+      .filter(([, value]) => value !== undefined)
+      .map(([operator, value]) => ({ field, operator: operator as ComparisonOperator, value }));
+  });
+}
+
+// Keep the last record for each key so that a batch never writes the same record twice
+export function uniqueByKey<T>(records: RecordInput<T>[], key: keyof T): RecordInput<T>[] {
+  return [...new Map(records.map((record) => [(record as Partial<T>)[key], record])).values()];
+}
+
+function isConditionObject(condition: FieldCondition) {
+  return typeof condition === 'object' && condition !== null && !(condition instanceof Date);
+}
+
+// Dates are stored the way PocketBase stores them ("2024-01-01 00:00:00.000Z") so they sort as text
+export function formatDate(date: Date) {
+  return date.toISOString().replace('T', ' ');
+}
@@ -0,0 +1,263 @@
+import { z } from 'zod';
+import sqlite from 'node-sqlite3-wasm';
+import { dirname } from 'path';
+import { mkdir } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { DuplicateRecordError, RecordSchema, formatDate, getFieldComparisons, uniqueByKey } from './repository.js';
+import {
+  ArchiveRetrySchema,
+  FSPChangeSchema,
+  AssetSchema,
+  DBNetworkSchema,
+  DiscrepancySchema,
+  FactBagInfoSchema,
+  FactStatementSchema,
+  FeedSchema,
+  FilterValue,
+  JobStateSchema,
+  FindOptions,
+  NodeSchema,
+  PolicySchema,
+  RecordFilter,
+  RecordInput,
+  Repository,
+  RollbackSchema,
+  SourceSchema,
+  SourceObservationSchema,
+  SourceOutlierStatsSchema,
+  Storage,
+  UpsertResult
+} from '../util/types.js';
+
+type Database = InstanceType<typeof sqlite.Database>;
+type SQLiteValue = string | number | null;
+
+const OPERATORS = { eq: '=', ne: '!=', gt: '>', gte: '>=', lt: '<', lte: '<=' } as const;
+
+// Each collection is stored as a table of JSON documents, with unique indexes matching the PocketBase collections
+export async function createSQLiteStorage(): Promise<Storage> {
+  const path = process.env.SQLITE_PATH || './data/explorer-index.db';
+  await mkdir(dirname(path), { recursive: true });
+
+  const db = new sqlite.Database(path);
+  console.info(`Opened SQLite database at ${path}`);
+
+  return {
+    facts: createSQLiteRepository(db, 'facts', FactStatementSchema, ['statement_hash']),
+    feeds: createSQLiteRepository(db, 'feeds', FeedSchema),
+    policies: createSQLiteRepository(db, 'policies', PolicySchema, [['network', 'policy_id']]),
+    networks: createSQLiteRepository(db, 'networks', DBNetworkSchema, ['name']),
+    nodes: createSQLiteRepository(db, 'nodes', NodeSchema),
+    sources: createSQLiteRepository(db, 'sources', SourceSchema),
+    assets: createSQLiteRepository(db, 'assets', AssetSchema),
+    rollbacks: createSQLiteRepository(db, 'rollbacks', RollbackSchema),
+    jobStates: createSQLiteRepository(db, 'job_states', JobStateSchema),
+    bagInfos: createSQLiteRepository(db, 'bag_infos', FactBagInfoSchema, ['fact']),
+    discrepancies: createSQLiteRepository(db, 'discrepancies', DiscrepancySchema),
+    sourceObservations: createSQLiteRepository(db, 'source_observations', SourceObservationSchema),
+    sourceOutlierStats: createSQLiteRepository(db, 'source_outlier_stats', SourceOutlierStatsSchema, [
+      ['source', 'day']
+    ]),
+    archiveRetries: createSQLiteRepository(db, 'archive_retries', ArchiveRetrySchema, ['fact']),
+    fspChanges: createSQLiteRepository(db, 'fsp_changes', FSPChangeSchema)
+  };
+}
+
+function createSQLiteRepository<T extends { id: string }>(
+  db: Database,
+  table: string,
+  schema: RecordSchema<T>,
+  uniqueFields: (string | string[])[] = []
+): Repository<T> {
+  db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+
+  // A field list is unique as a combination, e.g. a policy ID is unique within its network
+  const uniqueIndexes = new Map(
+    uniqueFields.map((fields) => [`${table}_${[fields].flat().join('_')}`, [fields].flat()])
+  );
+  // Drop the indexes of fields that are no longer unique, so existing databases accept the records they now allow
+  const existingIndexes = db.all(`SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = ?`, [table]);
+  for (const { name } of existingIndexes) {
+    if (String(name).startsWith(`${table}_`) && !uniqueIndexes.has(String(name))) db.exec(`DROP INDEX ${name}`);
+  }
+  for (const [name, fields] of uniqueIndexes) {
+    const columns = fields.map((field) => `json_extract(data, '$.${field}')`).join(', ');
+    db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS ${name} ON ${table} (${columns})`);
+  }
+
+  const parseRow = (row: Record<string, unknown>) => schema.parse({ ...JSON.parse(String(row.data)), id: row.id });
+
+  const findAll = (options: FindOptions<T> = {}) => {
+    const { where, values } = buildWhere(options.filter);
+    const orderBy = options.sort ? buildOrderBy(options.sort) : '';
+    const limit = options.limit ? `LIMIT ${Number(options.limit)}` : '';
+    return db.all(`SELECT id, data FROM ${table} ${where} ${orderBy} ${limit}`, values).map(parseRow);
+  };
+
+  const getById = (id: string) => {
+    const row = db.get(`SELECT id, data FROM ${table} WHERE id = ?`, [id]);
+    return row ? parseRow(row) : null;
+  };
+
+  const insert = (record: RecordInput<T>) => {
+    const id = generateId();
+    const data = { ...getZeroValues(schema), ...toDocument(schema, record) };
+    // Validate before writing, like PocketBase rejects records that don't match the collection's fields
+    const parsed = schema.parse({ ...data, id });
+
+    try {
+      db.run(`INSERT INTO ${table} (id, data) VALUES (?, ?)`, [id, JSON.stringify(data)]);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed'))
+        throw new DuplicateRecordError(table, error);
+      throw error;
+    }
+
+    return parsed;
+  };
+
+  const update = (id: string, changes: RecordInput<T>) => {
+    const row = db.get(`SELECT data FROM ${table} WHERE id = ?`, [id]);
+    if (!row) throw new Error(`Record ${id} not found in ${table}`);
+
+    const data = { ...JSON.parse(String(row.data)), ...toDocument(schema, changes) };
+    const parsed = schema.parse({ ...data, id });
+
+    db.run(`UPDATE ${table} SET data = ? WHERE id = ?`, [JSON.stringify(data), id]);
+    return parsed;
+  };
+
+  return {
+    async getById(id) {
+      return getById(id);
+    },
+
+    async findFirst(options = {}) {
+      return findAll({ ...options, limit: 1 })[0] ?? null;
+    },
+
+    async findAll(options = {}) {
+      return findAll(options);
+    },
+
+    async count(filter) {
+      const { where, values } = buildWhere(filter);
+      const row = db.get(`SELECT COUNT(*) AS total FROM ${table} ${where}`, values);
+      return Number(row?.total ?? 0);
+    },
+
+    async create(record) {
+      return insert(record);
+    },
+
+    async update(id, changes) {
+      return update(id, changes);
+    },
+
+    async upsertMany(items, key) {
+      const result: UpsertResult<T> = { inserted: [], updated: [], failed: [] };
+
+      // A failed statement does not abort the transaction, so each record succeeds or fails on its own
+      db.exec('BEGIN');
+      try {
+        for (const item of uniqueByKey(items, key)) {
+          try {
+            const filter = { [key]: (item as Partial<T>)[key] as FilterValue } as RecordFilter<T>;
+            const existing = findAll({ filter, limit: 1 })[0];
+            if (existing) result.updated.push(update(existing.id, item));
+            else result.inserted.push(insert(item));
+          } catch (error) {
+            result.failed.push({ record: item, error });
+          }
+        }
+        db.exec('COMMIT');
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+
+      return result;
+    },
+
+    async delete(id) {
+      db.run(`DELETE FROM ${table} WHERE id = ?`, [id]);
+    }
+  };
+}
+
+function buildWhere<T>(filter?: RecordFilter<T>): { where: string; values: SQLiteValue[] } {
+  const values: SQLiteValue[] = [];
+
+  const clauses = getFieldComparisons(filter).map(({ field, operator, value }) => {
+    const column = field === 'id' ? 'id' : `json_extract(data, '$.${field}')`;
+
+    if (operator === 'in') {
+      const list = value as unknown[];
+      if (list.length === 0) return '0';
+      values.push(...list.map(toSQLiteValue));
+      return `${column} IN (${list.map(() => '?').join(', ')})`;
+    }
+
+    if (value === null && (operator === 'eq' || operator === 'ne')) {
+      return `${column} IS ${operator === 'eq' ? '' : 'NOT '}NULL`;
+    }
+
+    values.push(toSQLiteValue(value));
+    return `${column} ${OPERATORS[operator]} ?`;
+  });
+
+  return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', values };
+}
+
+function buildOrderBy(sort: string) {
+  const isDescending = sort.startsWith('-');
+  const field = isDescending ? sort.slice(1) : sort;
+  if (!/^[a-z_][a-z0-9_]*$/i.test(field)) throw new Error(`Invalid sort field: ${field}`);
+
+  const column = field === 'id' ? 'id' : `json_extract(data, '$.${field}')`;
+  return `ORDER BY ${column} ${isDescending ? 'DESC' : 'ASC'}`;
+}
+
+// json_extract returns booleans as 1/0, and dates are stored as PocketBase-formatted text
+function toSQLiteValue(value: unknown): SQLiteValue {
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' || typeof value === 'number') return value;
+  return null;
+}
+
+// Keep only the schema's fields (like PocketBase ignores unknown fields) and store dates as text
+function toDocument<T>(schema: RecordSchema<T>, record: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record)
+      .filter(([field, value]) => field !== 'id' && field in schema.shape && value !== undefined)
+      .map(([field, value]) => [field, value instanceof Date ? formatDate(value) : value])
+  );
+}
+
+// PocketBase fills unset fields with zero values ('' / 0 / false / []), so new records are filled the same way
+function getZeroValues<T>(schema: RecordSchema<T>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(schema.shape)
+      .filter(([field]) => field !== 'id')
+      .map(([field, type]) => [field, getZeroValue(type)])
+  );
+}
+
+function getZeroValue(type: z.ZodTypeAny): unknown {
+  if (type instanceof z.ZodOptional || type instanceof z.ZodNullable) return getZeroValue(type.unwrap());
+  if (type instanceof z.ZodCatch) return getZeroValue(type.removeCatch());
+  if (type instanceof z.ZodEffects) return getZeroValue(type.innerType());
+  if (type instanceof z.ZodUnion) return getZeroValue(type.options[0]);
+  if (type instanceof z.ZodNumber) return 0;
+  if (type instanceof z.ZodBoolean) return false;
+  if (type instanceof z.ZodArray) return [];
+  if (type instanceof z.ZodObject) return null;
+  return '';
+}
+
+// 15 character ids, matching the PocketBase id format
+function generateId() {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from(randomBytes(15), (byte) => alphabet[byte % alphabet.length]).join('');
+}
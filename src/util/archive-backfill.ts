@@ -0,0 +1,78 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { indexArchives } from './archives.js';
+import { Network } from './types.js';
+import { getOldestUnarchivedFact, getOrCreateJobState, getUnarchivedFactsBetween, updateJobState } from '../db.js';
+
+const ARCHIVE_BACKFILL_JOB = 'archive_backfill';
+
+// Index the archives of unarchived facts that are older than the sync cron's ARCHIVE_RETRY_HOURS window, oldest first.
+// Facts are walked one publication-date window at a time and the job state is checkpointed after every window, so a
+// restart resumes from the last completed window. Facts whose archive can't be fetched are retried by the sync cron
+// through their archive retry state, and archives that fail verification are counted as failed.
+export async function backfillArchives(network: Network) {
+  const windowHours = Number(process.env.ARCHIVE_BACKFILL_WINDOW_HOURS) || 24;
+  const batchSize = Number(process.env.ARCHIVE_BACKFILL_BATCH_SIZE) || 50;
+  const batchDelayMs = Number(process.env.ARCHIVE_BACKFILL_BATCH_DELAY_MS) || 5000;
+  const concurrency = Number(process.env.ARCHIVE_BACKFILL_CONCURRENCY) || 5;
+  const archiveRetryHours = Number(process.env.ARCHIVE_RETRY_HOURS) || 6;
+  const cutoff = new Date(Date.now() - archiveRetryHours * 60 * 60 * 1000);
+
+  const jobState = await getOrCreateJobState(ARCHIVE_BACKFILL_JOB, network);
+  const startDate = jobState.cursor_date ?? (await getOldestUnarchivedFact(network))?.publication_date;
+  if (!startDate || startDate >= cutoff) {
+    console.info(`Archive backfill for ${network.name} is up to date`);
+    return;
+  }
+
+  let cursor = startDate;
+
+  console.info(`\n* * Backfilling ${network.name} archives from ${startDate.toISOString()}...`);
+  const progress = {
+    processed_count: jobState.processed_count,
+    indexed_count: jobState.indexed_count,
+    failed_count: jobState.failed_count
+  };
+  await updateJobState({ id: jobState.id, status: 'running', last_error: '', last_run_at: new Date() });
+
+  try {
+    while (cursor < cutoff) {
+      const windowEnd = new Date(Math.min(cursor.getTime() + windowHours * 60 * 60 * 1000, cutoff.getTime()));
+      const facts = await getUnarchivedFactsBetween(network, cursor, windowEnd);
+
+      // Throttle Arweave requests by pausing between batches
+      for (let i = 0; i < facts.length; i += batchSize) {
+        if (i > 0) await sleep(batchDelayMs);
+        const batch = facts.slice(i, i + batchSize);
+        const result = await indexArchives(network, batch, { concurrency });
+        progress.processed_count += batch.length;
+        progress.indexed_count += result.indexed;
+        progress.failed_count += result.failed;
+      }
+
+      if (facts.length > 0) {
+        cursor = windowEnd;
+      } else {
+        // Skip empty stretches by jumping straight to the next unarchived fact
+        const nextFact = await getOldestUnarchivedFact(network, windowEnd);
+        cursor = nextFact ? new Date(Math.min(nextFact.publication_date.getTime(), cutoff.getTime())) : cutoff;
+      }
+
+      await updateJobState({ id: jobState.id, cursor_date: cursor, ...progress });
+      if (facts.length > 0) {
+        console.info(
+          `Backfilled ${network.name} archives up to ${cursor.toISOString()} (${progress.indexed_count} indexed, ${progress.failed_count} failed)`
+        );
+      }
+    }
+
+    await updateJobState({ id: jobState.id, status: 'idle' });
+    console.info(`* * Archive backfill for ${network.name} caught up to ${cutoff.toISOString()}`);
+  } catch (error) {
+    await updateJobState({
+      id: jobState.id,
+      status: 'failed',
+      last_error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,160 @@
+import { join } from 'path';
+import { mkdir, readdir, rename, stat, unlink, utimes, writeFile } from 'fs/promises';
+import { logError } from './logger.js';
+import { archiveCacheCounter } from './metrics.js';
+
+// Arweave transaction ids are 32 bytes, base64url encoded
+const TRANSACTION_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+const ARCHIVE_EXTENSION = '.tar.gz';
+
+// Sizes of the cached tarballs by path, least recently used first, and their total. Loaded from the cache directory
+// on first use and kept up to date as tarballs are read, written and evicted, so caching doesn't rescan the directory
+interface ArchiveCacheIndex {
+  cacheDir: string;
+  sizes: Map<string, number>;
+  totalBytes: number;
+}
+let cacheIndex: Promise<ArchiveCacheIndex> | null = null;
+
+// Tarballs are cached in ARCHIVE_CACHE_DIR by transaction id. The cache is disabled when it isn't set
+export function getArchiveCacheDir() {
+  return process.env.ARCHIVE_CACHE_DIR || null;
+}
+
+// With ARCHIVE_CACHE_ONLY, archives are only read from the cache and the Arweave gateways are never contacted
+export function isArchiveCacheOnly() {
+  return process.env.ARCHIVE_CACHE_ONLY === 'true';
+}
+
+export function getTransactionId(storageUrn: string) {
+  return storageUrn.slice(12);
+}
+
+// The path of a cached tarball, or null when it isn't cached
+export async function getCachedArchivePath(transactionId: string): Promise<string | null> {
+  const filePath = getArchiveCachePath(transactionId);
+  if (!filePath) return null;
+
+  try {
+    // The modification time doubles as the last access time for eviction, as atime is often disabled
+    const now = new Date();
+    await utimes(filePath, now, now);
+    await markArchiveUsed(filePath);
+    archiveCacheCounter.inc({ result: 'hit' });
+    return filePath;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') logError(`Error reading cached archive ${filePath}`, error);
+    archiveCacheCounter.inc({ result: 'miss' });
+    return null;
+  }
+}
+
+// Store a tarball, then evict the least recently used tarballs until the cache fits ARCHIVE_CACHE_MAX_MB
+export async function cacheArchive(transactionId: string, tarball: Buffer) {
+  const cacheDir = getArchiveCacheDir();
+  const filePath = getArchiveCachePath(transactionId);
+  if (!cacheDir || !filePath) return;
+
+  const maxBytes = getArchiveCacheMaxBytes();
+  if (tarball.length > maxBytes) {
+    console.warn(`Archive ${transactionId} (${tarball.length} bytes) is larger than the archive cache, not caching it`);
+    return;
+  }
+
+  try {
+    await mkdir(cacheDir, { recursive: true });
+    // Write to a temporary file first so that concurrent readers never see a partial tarball
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, tarball);
+    await rename(tempPath, filePath);
+
+    const index = await getArchiveCacheIndex(cacheDir);
+    index.totalBytes += tarball.length - (index.sizes.get(filePath) ?? 0);
+    index.sizes.delete(filePath);
+    index.sizes.set(filePath, tarball.length);
+    await evictArchives(index, maxBytes);
+  } catch (error) {
+    logError(`Error caching archive ${transactionId}`, error);
+  }
+}
+
+export async function removeCachedArchive(transactionId: string) {
+  const cacheDir = getArchiveCacheDir();
+  const filePath = getArchiveCachePath(transactionId);
+  if (!cacheDir || !filePath) return;
+  await unlink(filePath).catch(() => undefined);
+  forgetArchive(await getArchiveCacheIndex(cacheDir), filePath);
+}
+
+// Remove the least recently used tarballs until the cache fits
+async function evictArchives(index: ArchiveCacheIndex, maxBytes: number) {
+  for (const filePath of index.sizes.keys()) {
+    if (index.totalBytes <= maxBytes) break;
+    await unlink(filePath).catch(() => undefined);
+    forgetArchive(index, filePath);
+    archiveCacheCounter.inc({ result: 'evicted' });
+  }
+}
+
+// Move a tarball to the most recently used end of the index
+async function markArchiveUsed(filePath: string) {
+  const cacheDir = getArchiveCacheDir();
+  if (!cacheDir) return;
+
+  const index = await getArchiveCacheIndex(cacheDir);
+  const size = index.sizes.get(filePath);
+  if (size === undefined) return;
+  index.sizes.delete(filePath);
+  index.sizes.set(filePath, size);
+}
+
+function forgetArchive(index: ArchiveCacheIndex, filePath: string) {
+  index.totalBytes -= index.sizes.get(filePath) ?? 0;
+  index.sizes.delete(filePath);
+}
+
+// Tarballs written by other processes (e.g. the CLI) are only counted once the index is reloaded on restart
+function getArchiveCacheIndex(cacheDir: string): Promise<ArchiveCacheIndex> {
+  if (!cacheIndex) {
+    cacheIndex = loadArchiveCacheIndex(cacheDir);
+    return cacheIndex;
+  }
+  return cacheIndex.then((index) => {
+    if (index.cacheDir === cacheDir) return index;
+    cacheIndex = loadArchiveCacheIndex(cacheDir);
+    return cacheIndex;
+  });
+}
+
+async function loadArchiveCacheIndex(cacheDir: string): Promise<ArchiveCacheIndex> {
+  const fileNames = await readdir(cacheDir).catch(() => [] as string[]);
+  const entries = (
+    await Promise.all(
+      fileNames
+        .filter((fileName) => fileName.endsWith(ARCHIVE_EXTENSION))
+        .map(async (fileName) => {
+          const filePath = join(cacheDir, fileName);
+          const stats = await stat(filePath).catch(() => null);
+          return stats ? { filePath, size: stats.size, mtimeMs: stats.mtimeMs } : null;
+        })
+    )
+  ).filter((entry) => entry !== null);
+
+  entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  return {
+    cacheDir,
+    sizes: new Map(entries.map((entry) => [entry.filePath, entry.size])),
+    totalBytes: entries.reduce((total, entry) => total + entry.size, 0)
+  };
+}
+
+// Only well-formed transaction ids are cached, so a storage_urn can't point outside the cache directory
+function getArchiveCachePath(transactionId: string) {
+  const cacheDir = getArchiveCacheDir();
+  if (!cacheDir || !TRANSACTION_ID_PATTERN.test(transactionId)) return null;
+  return join(cacheDir, `${transactionId}${ARCHIVE_EXTENSION}`);
+}
+
+function getArchiveCacheMaxBytes() {
+  return (Number(process.env.ARCHIVE_CACHE_MAX_MB) || 1024) * 1024 * 1024;
+}
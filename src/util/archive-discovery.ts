@@ -0,0 +1,151 @@
+import { setTimeout as sleep } from 'timers/promises';
+import { indexArchives } from './archives.js';
+import { getArweaveGateways } from './arweave-gateways.js';
+import { ArweavePageResponse, ArweaveResponseSchema, FactStatement, Network, TagFilters } from './types.js';
+import { getFactsWithoutArchive, getOrCreateJobState, updateFactStatement, updateJobState } from '../db.js';
+
+const ARCHIVE_DISCOVERY_JOB = 'archive_discovery';
+
+// Fact URNs searched per GraphQL query, and transactions fetched per page
+const URNS_PER_QUERY = 50;
+const PAGE_SIZE = 100;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+const TRANSACTIONS_QUERY = `
+  query ($tags: [TagFilter!], $owners: [String!], $first: Int, $after: String) {
+    transactions(tags: $tags, owners: $owners, first: $first, after: $after, sort: HEIGHT_DESC) {
+      pageInfo { hasNextPage }
+      edges { cursor node { id tags { name value } } }
+    }
+  }
+`;
+
+// Find archives that were uploaded to Arweave after their fact was published. Facts without a storage_urn are
+// searched by their System Identifier and Fact Datum URN tags, and the facts found are indexed from their archive.
+// Facts older than ARCHIVE_DISCOVERY_MAX_AGE_DAYS are no longer searched, as their archive was never uploaded.
+export async function discoverArchives(network: Network) {
+  const jobState = await getOrCreateJobState(ARCHIVE_DISCOVERY_JOB, network);
+  if (!network.arweave_system_identifier) {
+    console.info(`No Arweave system identifier set for ${network.name}, skipping archive discovery`);
+    return;
+  }
+
+  const maxAgeDays = Number(process.env.ARCHIVE_DISCOVERY_MAX_AGE_DAYS) || 7;
+  const facts = await getFactsWithoutArchive(network, new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000));
+  if (facts.length === 0) return;
+
+  console.info(`\n* * Searching Arweave for archives of ${facts.length} ${network.name} facts...`);
+  await updateJobState({ id: jobState.id, status: 'running', last_error: '', last_run_at: new Date() });
+
+  try {
+    const discovered: FactStatement[] = [];
+    for (let i = 0; i < facts.length; i += URNS_PER_QUERY) {
+      const batch = facts.slice(i, i + URNS_PER_QUERY);
+      const transactionIds = await findArchiveTransactions(network, batch);
+
+      for (const fact of batch) {
+        const transactionId = transactionIds.get(fact.fact_urn);
+        if (!transactionId) continue;
+
+        const storage_urn = `urn:arweave:${transactionId}`;
+        await updateFactStatement(fact.id, { storage_urn });
+        discovered.push({ ...fact, storage_urn });
+      }
+    }
+
+    console.info(`* * Discovered ${discovered.length} archives for ${network.name}`);
+    const result = await indexArchives(network, discovered);
+
+    await updateJobState({
+      id: jobState.id,
+      status: 'idle',
+      processed_count: jobState.processed_count + facts.length,
+      indexed_count: jobState.indexed_count + result.indexed,
+      failed_count: jobState.failed_count + result.failed
+    });
+  } catch (error) {
+    await updateJobState({
+      id: jobState.id,
+      status: 'failed',
+      last_error: error instanceof Error ? error.message : String(error)
+    });
+    throw error;
+  }
+}
+
+// Map each fact URN to the newest archive transaction tagged with it
+async function findArchiveTransactions(network: Network, facts: FactStatement[]): Promise<Map<string, string>> {
+  const tags: TagFilters = [
+    { name: 'System Identifier', values: [network.arweave_system_identifier] },
+    { name: 'Fact Datum URN', values: facts.map((fact) => fact.fact_urn) }
+  ];
+  // Only trust archives uploaded by the network's wallet, as anyone can tag a transaction
+  const owners = network.arweave_wallet_address ? [network.arweave_wallet_address] : undefined;
+
+  const transactionIds = new Map<string, string>();
+  let cursor: string | null = null;
+  let rateLimitRetries = 0;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const page = await fetchTransactionsPage(network, tags, owners, cursor);
+
+    if (page.isRateLimited) {
+      if (++rateLimitRetries > MAX_RATE_LIMIT_RETRIES) throw new Error('Arweave GraphQL rate limit retries exhausted');
+      const backoffMs = (Number(process.env.ARWEAVE_RATE_LIMIT_BACKOFF_MS) || 5000) * 2 ** (rateLimitRetries - 1);
+      console.warn(`Rate limited by Arweave GraphQL, retrying in ${backoffMs}ms...`);
+      await sleep(backoffMs);
+      continue;
+    }
+    rateLimitRetries = 0;
+
+    // Results are newest first, so the first transaction found for a URN is kept
+    for (const edge of page.data?.transactions.edges ?? []) {
+      const factUrn = edge.node.tags.find((tag) => tag.name === 'Fact Datum URN')?.value;
+      if (factUrn && !transactionIds.has(factUrn)) transactionIds.set(factUrn, edge.node.id);
+    }
+    cursor = page.nextPageCursor;
+    hasNextPage = cursor !== null;
+  }
+
+  return transactionIds;
+}
+
+async function fetchTransactionsPage(
+  network: Network,
+  tags: TagFilters,
+  owners: string[] | undefined,
+  cursor: string | null
+): Promise<ArweavePageResponse> {
+  const response = await fetch(getGraphQLEndpoint(network), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      query: TRANSACTIONS_QUERY,
+      variables: { tags, owners, first: PAGE_SIZE, after: cursor }
+    })
+  });
+
+  if (response.status === 429) return { data: null, nextPageCursor: cursor, isRateLimited: true };
+  if (!response.ok) throw new Error(`HTTP ${response.status} from Arweave GraphQL`);
+
+  const body = await response.json();
+  if (body.errors?.length) throw new Error(`Arweave GraphQL error: ${JSON.stringify(body.errors)}`);
+  const data = ArweaveResponseSchema.parse(body.data);
+  const edges = data.transactions.edges;
+
+  return {
+    data,
+    nextPageCursor: data.transactions.pageInfo.hasNextPage && edges.length ? edges[edges.length - 1].cursor : null,
+    isRateLimited: false
+  };
+}
+
+// ARWEAVE_GRAPHQL_ENDPOINT, or the GraphQL endpoint of the network's first Arweave gateway
+function getGraphQLEndpoint(network: Network) {
+  if (process.env.ARWEAVE_GRAPHQL_ENDPOINT) return process.env.ARWEAVE_GRAPHQL_ENDPOINT;
+
+  const [gateway] = getArweaveGateways(network);
+  if (!gateway) throw new Error(`No Arweave gateways configured for ${network.name}`);
+  return `${gateway}/graphql`;
+}
@@ -0,0 +1,110 @@
+import * as zlib from 'zlib';
+import * as tar from 'tar-stream';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createChecksumHashes, digestChecksumHashes } from './bagit.js';
+import { ArchivedFile, ArchiveFileError } from './types.js';
+
+// Entries whose content is parsed. Other entries are only hashed and measured for bag verification
+const TEXT_EXTENSIONS = ['JSON', 'TXT'];
+
+// Raised when an archive exceeds ARCHIVE_MAX_SIZE_MB, which no gateway can do anything about
+export class ArchiveTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Archive is larger than ${maxBytes} bytes`);
+    this.name = 'ArchiveTooLargeError';
+  }
+}
+
+export function getArchiveMaxBytes() {
+  return (Number(process.env.ARCHIVE_MAX_SIZE_MB) || 50) * 1024 * 1024;
+}
+
+// Gunzip and untar an archive as it is read. Both the compressed and the extracted archive are limited to
+// ARCHIVE_MAX_SIZE_MB, and text entries over ARCHIVE_MAX_ENTRY_SIZE_MB or with invalid JSON are kept without their
+// content and reported in fileErrors. onChunk receives the compressed archive, e.g. to cache it.
+export async function extractArchive(
+  tarball: Readable,
+  options: { onChunk?: (chunk: Buffer) => void } = {}
+): Promise<{ files: ArchivedFile[]; fileErrors: ArchiveFileError[] }> {
+  const maxArchiveBytes = getArchiveMaxBytes();
+  const maxEntryBytes = (Number(process.env.ARCHIVE_MAX_ENTRY_SIZE_MB) || 10) * 1024 * 1024;
+  const files: ArchivedFile[] = [];
+  const fileErrors: ArchiveFileError[] = [];
+
+  const extract = tar.extract();
+  extract.on('entry', (header, stream, next) => {
+    if (header.type !== 'file') {
+      stream.on('end', () => next());
+      stream.resume();
+      return;
+    }
+
+    const extension = (header.name.split('.').pop() ?? 'Unknown').toUpperCase();
+    const segments = header.name.split('/').filter((segment: string) => segment !== '');
+    const hashes = createChecksumHashes();
+    const chunks: Buffer[] = [];
+    let isBuffered = TEXT_EXTENSIONS.includes(extension);
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      Object.values(hashes).forEach((hash) => hash.update(chunk));
+      if (!isBuffered) return;
+
+      if (size > maxEntryBytes) {
+        isBuffered = false;
+        chunks.length = 0;
+        fileErrors.push({ name: header.name, reason: 'too_large', message: `Larger than ${maxEntryBytes} bytes` });
+      } else chunks.push(chunk);
+    });
+    stream.on('end', () => {
+      files.push({
+        name: header.name,
+        fileName: segments[segments.length - 1],
+        extension,
+        content: isBuffered ? parseEntry(header.name, extension, Buffer.concat(chunks), fileErrors) : null,
+        size,
+        checksums: digestChecksumHashes(hashes)
+      });
+      next();
+    });
+  });
+
+  await pipeline(
+    tarball,
+    limitSize(maxArchiveBytes, options.onChunk),
+    zlib.createGunzip(),
+    limitSize(maxArchiveBytes),
+    extract
+  );
+
+  return { files, fileErrors };
+}
+
+function parseEntry(name: string, extension: string, content: Buffer, fileErrors: ArchiveFileError[]) {
+  if (extension !== 'JSON') return content.toString();
+
+  try {
+    return JSON.parse(content.toString()) as object;
+  } catch (error) {
+    fileErrors.push({
+      name,
+      reason: 'invalid_json',
+      message: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+function limitSize(maxBytes: number, onChunk?: (chunk: Buffer) => void) {
+  let size = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (size > maxBytes) return callback(new ArchiveTooLargeError(maxBytes));
+      onChunk?.(chunk);
+      callback(null, chunk);
+    }
+  });
+}
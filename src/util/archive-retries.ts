@@ -0,0 +1,38 @@
+import { upsertArchiveRetry } from '../db.js';
+import { ArchiveRetry, FactStatement, Network } from './types.js';
+
+// Whether a fact's archive should be fetched now. Facts without a retry state haven't failed yet
+export function isArchiveRetryDue(retry: ArchiveRetry | undefined, now = new Date()) {
+  return !retry || (retry.status === 'pending' && retry.next_attempt_at <= now);
+}
+
+// Record a failed fetch, scheduling the next attempt with exponential backoff or giving up after ARCHIVE_MAX_ATTEMPTS
+export async function recordArchiveFailure(
+  network: Network,
+  fact: FactStatement,
+  retry: ArchiveRetry | undefined,
+  failure: { endpoint: string; error: string }
+): Promise<ArchiveRetry | null> {
+  const maxAttempts = Number(process.env.ARCHIVE_MAX_ATTEMPTS) || 10;
+  const attemptCount = (retry?.attempt_count ?? 0) + 1;
+  const now = new Date();
+
+  return upsertArchiveRetry({
+    network: network.id,
+    fact: fact.id,
+    fact_urn: fact.fact_urn,
+    status: attemptCount >= maxAttempts ? 'gave_up' : 'pending',
+    attempt_count: attemptCount,
+    last_error: failure.error,
+    last_endpoint: failure.endpoint,
+    last_attempt_at: now,
+    next_attempt_at: new Date(now.getTime() + getRetryDelayMs(attemptCount))
+  });
+}
+
+// ARCHIVE_RETRY_BASE_MINUTES doubled for every failed attempt, capped at ARCHIVE_RETRY_MAX_HOURS
+function getRetryDelayMs(attemptCount: number) {
+  const baseMs = (Number(process.env.ARCHIVE_RETRY_BASE_MINUTES) || 10) * 60 * 1000;
+  const maxMs = (Number(process.env.ARCHIVE_RETRY_MAX_HOURS) || 24) * 60 * 60 * 1000;
+  return Math.min(baseMs * 2 ** (attemptCount - 1), maxMs);
+}
@@ -2,57 +2,124 @@ import {
   Node,
   Source,
   Network,
+  DBNetwork,
+  BagInfo,
   ArchiveData,
+  ArchiveRetry,
+  ArchiveFetchResult,
   ArchivedFile,
+  BagInfoSchema,
   FactStatement,
   FactSourceMessage,
   ValidationFileSchema,
   FactSourceMessageSchema
 } from './types.js';
 import pLimit from 'p-limit';
-import * as zlib from 'zlib';
-import { promisify } from 'util';
-import * as tar from 'tar-stream';
+import { createReadStream } from 'fs';
+import { ReadableStream } from 'stream/web';
 import { logError } from './logger.js';
-import { pipeline, Readable } from 'stream';
-import { createNode, createSource, getAllNodes, getAllSources, updateFactStatement, updateSource } from '../db.js';
-
-export async function indexArchives(network: Network, facts: FactStatement[]) {
-  if (facts.length < 1) return;
+import { BagVerificationError, parseBagInfo, verifyBag } from './bagit.js';
+import { ArchiveTooLargeError, extractArchive, getArchiveMaxBytes } from './archive-extraction.js';
+import { archivesCounter } from './metrics.js';
+import { reconcileArchive } from './reconciliation.js';
+import { isArchiveRetryDue, recordArchiveFailure } from './archive-retries.js';
+import {
+  cacheArchive,
+  getArchiveCacheDir,
+  getCachedArchivePath,
+  getTransactionId,
+  isArchiveCacheOnly,
+  removeCachedArchive
+} from './archive-cache.js';
+import { ArchiveNotFoundError, logArweaveGatewayHealth, withArweaveGateway } from './arweave-gateways.js';
+import { indexSourceObservations } from './source-observations.js';
+import { Readable } from 'stream';
+import {
+  createNode,
+  createSource,
+  deleteArchiveRetry,
+  getArchiveRetries,
+  getAllNodes,
+  getAllSources,
+  updateFactStatement,
+  updateSource,
+  upsertBagInfo
+} from '../db.js';
+
+// Reported as the endpoint of archives read from the archive cache
+const ARCHIVE_CACHE_ENDPOINT = 'cache';
+
+export async function indexArchives(
+  network: Network,
+  facts: FactStatement[],
+  // Archives already fetched with getArchiveFiles, by fact ID, are indexed without fetching them again
+  options: { concurrency?: number; force?: boolean; archives?: Map<string, ArchiveFetchResult> } = {}
+): Promise<{ indexed: number; failed: number; unverified: number }> {
+  if (facts.length < 1) return { indexed: 0, failed: 0, unverified: 0 };
 
   console.info(`\n* * Indexing batch of archives from Arweave for ${network.name}...`);
 
+  // Skip facts whose archive retry isn't due yet, unless forced
+  const retries = new Map((await getArchiveRetries(facts)).map((retry) => [retry.fact, retry]));
+  const dueFacts = options.force ? facts : facts.filter((fact) => isArchiveRetryDue(retries.get(fact.id)));
+  if (dueFacts.length < facts.length) {
+    console.info(`Skipping ${facts.length - dueFacts.length} archives that aren't due for a retry`);
+  }
+
   const cachedNodes = await getAllNodes(network);
   const cachedSources = await getAllSources(network);
 
   // Set a concurrency limit. Adjust as needed based on performance and resource constraints.
-  const limit = pLimit(5);
+  const limit = pLimit(options.concurrency ?? 5);
 
-  const failedFacts: { fact_urn: string; storage_urn: string; validation_date: Date }[] = [];
+  const failedFacts: { fact_urn: string; storage_urn: string; retry: ArchiveRetry | null }[] = [];
+  const unverifiedFacts: string[] = [];
 
   // Define the task for a single fact
   const processFact = async (fact: FactStatement, index: number) => {
-    console.info(`Indexing ${index + 1} of ${facts.length} archives, Fact URN: ${fact.fact_urn}`);
+    console.info(`Indexing ${index + 1} of ${dueFacts.length} archives, Fact URN: ${fact.fact_urn}`);
 
     if (!fact.storage_urn) {
       console.info(`No archive found for ${fact.fact_urn}`);
       return null;
     }
 
-    const files = await getArchiveFiles(fact);
-    if (!files) {
+    const archive = options.archives?.get(fact.id) ?? (await getArchiveFiles(network, fact));
+    const retry = retries.get(fact.id);
+    if (!archive.files) {
+      // A bag that fails verification is retried like a failed fetch, as a later attempt may get a good copy
+      if (archive.verificationError) {
+        unverifiedFacts.push(fact.fact_urn);
+        await updateFactStatement(fact.id, {
+          archive_verification_status: 'failed',
+          archive_verification_error: archive.verificationError
+        });
+      }
+      // Cache-only runs never contact the gateways, so a miss doesn't use up the fact's retry attempts
       failedFacts.push({
         fact_urn: fact.fact_urn,
         storage_urn: fact.storage_urn,
-        validation_date: fact.validation_date
+        retry: isArchiveCacheOnly() ? (retry ?? null) : await recordArchiveFailure(network, fact, retry, archive)
       });
       return null;
     }
+    const { files, fileErrors } = archive;
+    if (retry) await deleteArchiveRetry(retry);
+    for (const fileError of fileErrors) {
+      console.warn(
+        `Skipped ${fileError.name} in archive of ${fact.fact_urn} (${fileError.reason}): ${fileError.message}`
+      );
+    }
 
     // Parse the archive files
-    const [nodes, sources] = await Promise.all([
+    const [nodes, sources, bagInfo] = await Promise.all([
       getNodeDetailsFromArchive(network, files, cachedNodes),
-      getSourceDetailsFromArchive(network, files, cachedSources)
+      getSourceDetailsFromArchive(network, files, cachedSources),
+      indexBagInfoFromArchive(network, fact, files)
+    ]);
+    await Promise.all([
+      reconcileArchive(network, fact, files, bagInfo),
+      indexSourceObservations(network, fact, files, sources)
     ]);
     const factDetails = getFactDetailsFromArchive(files);
 
@@ -61,14 +128,16 @@ export async function indexArchives(network: Network, facts: FactStatement[]) {
       ...factDetails.fact,
       sources: sources.map((source) => source.id),
       participating_nodes: nodes.map((node) => node.id),
-      is_archive_indexed: true
+      is_archive_indexed: true,
+      archive_verification_status: 'verified',
+      archive_verification_error: ''
     });
 
     return fact.fact_urn;
   };
 
   // Create tasks with the concurrency limit
-  const tasks = facts.map((fact, index) => limit(() => processFact(fact, index)));
+  const tasks = dueFacts.map((fact, index) => limit(() => processFact(fact, index)));
 
   // Run all tasks
   const results = await Promise.all(tasks);
@@ -76,118 +145,126 @@ export async function indexArchives(network: Network, facts: FactStatement[]) {
   // Filter out null results
   const successfulArchives = results.filter(Boolean);
 
-  console.info(`* * Indexed archives for ${successfulArchives.length} of ${facts.length} facts.`);
+  console.info(`* * Indexed archives for ${successfulArchives.length} of ${dueFacts.length} facts.`);
+  archivesCounter.inc({ network: network.name, result: 'success' }, successfulArchives.length);
+  archivesCounter.inc({ network: network.name, result: 'unverified' }, unverifiedFacts.length);
+  logArweaveGatewayHealth();
 
-  // Separate failed facts into recent (expected — Arweave still processing) vs stale (unexpected)
+  // Failed fetches are retried with backoff, and only alerted once they have been given up on
   if (failedFacts.length > 0) {
-    const thresholdMinutes = Number(process.env.ARCHIVE_AGE_THRESHOLD_MINUTES) || 120;
-    const AGE_THRESHOLD_MS = thresholdMinutes * 60 * 1000;
-    const now = Date.now();
-    const stale = failedFacts.filter((f) => now - f.validation_date.getTime() > AGE_THRESHOLD_MS);
-    const recent = failedFacts.length - stale.length;
-
-    if (recent > 0) {
-      console.warn(`Arweave still processing ${recent} archives for ${network.name}`);
-    }
+    const gaveUp = failedFacts.filter((f) => f.retry?.status === 'gave_up');
+    const retrying = failedFacts.length - gaveUp.length;
+    archivesCounter.inc({ network: network.name, result: 'retrying' }, retrying);
+    archivesCounter.inc({ network: network.name, result: 'gave_up' }, gaveUp.length);
 
-    if (stale.length > 0) {
-      const urnList = stale.map((f) => `  - ${f.fact_urn} (${f.storage_urn})`).join('\n');
-      logError(`Failed to fetch ${stale.length} archive(s) from Arweave for ${network.name}:\n${urnList}`);
+    if (retrying > 0) {
+      console.warn(`Failed to fetch ${retrying} archives for ${network.name}, they will be retried`);
     }
-  }
-}
 
-async function fetchArchive(endpoint: string, storageUrn: string): Promise<ArrayBuffer> {
-  const url = `${endpoint.replace(/\/+$/, '')}/${storageUrn.slice(12)}`;
-  const response = await fetch(url);
-
-  if (!response.body || !response.ok) {
-    throw new Error(`HTTP ${response.status} from ${endpoint}`);
-  }
-
-  const contentType = response.headers.get('content-type');
-  if (
-    !contentType ||
-    (!contentType.includes('x-tar') && !contentType.includes('gzip') && !contentType.includes('octet-stream'))
-  ) {
-    throw new Error(`Unexpected content type: ${contentType} from ${endpoint}`);
+    if (gaveUp.length > 0) {
+      const urnList = gaveUp
+        .map((f) => `  - ${f.fact_urn} (${f.storage_urn}): ${f.retry?.attempt_count} attempts, ${f.retry?.last_error}`)
+        .join('\n');
+      logError(`Gave up fetching ${gaveUp.length} archive(s) from Arweave for ${network.name}:\n${urnList}`);
+    }
   }
 
-  return response.arrayBuffer();
+  return { indexed: successfulArchives.length, failed: failedFacts.length, unverified: unverifiedFacts.length };
 }
 
-export async function getArchiveFiles(
-  fact: Pick<FactStatement, 'fact_urn' | 'storage_urn'>
-): Promise<ArchivedFile[] | null> {
+// Stream an archive from a gateway, extracting it as it downloads and keeping the tarball for the cache. The whole
+// download is aborted after ARWEAVE_FETCH_TIMEOUT_MS, so a gateway that stalls counts as failed.
+export async function fetchArchive(endpoint: string, transactionId: string) {
+  const url = `${endpoint}/${transactionId}`;
+  const timeoutMs = Number(process.env.ARWEAVE_FETCH_TIMEOUT_MS) || 60000;
+  const signal = AbortSignal.timeout(timeoutMs);
+
   try {
-    if (!fact.storage_urn) return [];
+    const response = await fetch(url, { signal });
 
-    const primaryEndpoint = process.env.PRIMARY_ARWEAVE_ENDPOINT;
-    const secondaryEndpoint = process.env.SECONDARY_ARWEAVE_ENDPOINT;
+    if (response.status === 404) throw new ArchiveNotFoundError(endpoint);
+    if (!response.body || !response.ok) {
+      throw new Error(`HTTP ${response.status} from ${endpoint}`);
+    }
 
-    if (!primaryEndpoint) {
-      throw new Error('PRIMARY_ARWEAVE_ENDPOINT is not configured');
+    const contentType = response.headers.get('content-type');
+    if (
+      !contentType ||
+      (!contentType.includes('x-tar') && !contentType.includes('gzip') && !contentType.includes('octet-stream'))
+    ) {
+      throw new Error(`Unexpected content type: ${contentType} from ${endpoint}`);
     }
 
-    let archivedBagArrayBuffer: ArrayBuffer;
-    try {
-      archivedBagArrayBuffer = await fetchArchive(primaryEndpoint, fact.storage_urn);
-    } catch (primaryError) {
-      if (!secondaryEndpoint) throw primaryError;
-      console.warn(
-        `Primary Arweave endpoint failed for ${fact.fact_urn}: ${primaryError instanceof Error ? primaryError.message : primaryError}, trying secondary...`
-      );
-      archivedBagArrayBuffer = await fetchArchive(secondaryEndpoint, fact.storage_urn);
+    const maxBytes = getArchiveMaxBytes();
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      await response.body.cancel();
+      throw new ArchiveTooLargeError(maxBytes);
     }
 
-    const files = await getArchivedFilesFromTarball(archivedBagArrayBuffer);
-    return files;
-  } catch (e) {
-    console.error(`Error fetching archive for ${fact.fact_urn}: ${e instanceof Error ? e.message : e}`);
-    return null;
+    const chunks: Buffer[] | null = getArchiveCacheDir() ? [] : null;
+    const archive = await extractArchive(Readable.fromWeb(response.body as ReadableStream<Uint8Array>), {
+      onChunk: chunks ? (chunk) => chunks.push(chunk) : undefined
+    });
+    return { ...archive, tarball: chunks ? Buffer.concat(chunks) : null };
+  } catch (error) {
+    if (signal.aborted) throw new Error(`Timed out after ${timeoutMs}ms fetching from ${endpoint}`, { cause: error });
+    throw error;
   }
 }
 
-async function getArchivedFilesFromTarball(tarball: ArrayBuffer): Promise<ArchivedFile[]> {
-  const pipelineAsync = promisify(pipeline);
-  const tarballBuffer = Buffer.from(tarball);
-  const stream = Readable.from(tarballBuffer);
-  const extract = tar.extract();
-  const files: ArchivedFile[] = [];
-
-  extract.on('entry', (header, stream, next) => {
-    let content = '';
-    stream.on('data', (chunk) => (content += chunk.toString()));
-    stream.on('end', () => {
-      if (header.name.endsWith('.txt') || header.name.endsWith('.json')) {
-        const fileExtension = header.name.split('.').pop() ?? 'Unknown';
-        const segments = header.name.split('/').filter((segment: string) => segment !== '');
-        const fileName = segments[segments.length - 1];
-
-        files.push({
-          name: header.name,
-          fileName,
-          extension: fileExtension.toUpperCase(),
-          content: header.name.endsWith('.json') ? JSON.parse(content) : content
-        });
-      }
-      next();
-    });
-    stream.resume();
-  });
+// Read an archive from the archive cache, or fetch it from the network's healthiest Arweave gateway,
+// falling back to the others, and cache it. Only archives that verify as a bag are returned and cached, so the
+// archive's contents are never trusted unless its manifests check out.
+export async function getArchiveFiles(
+  network: DBNetwork,
+  fact: Pick<FactStatement, 'fact_urn' | 'storage_urn'>
+): Promise<ArchiveFetchResult> {
+  let endpoint = '';
+  let verificationError: string | undefined;
+
+  const verify = <T extends { files: ArchivedFile[] }>(archive: T): T => {
+    const verification = verifyBag(archive.files);
+    if (verification.isValid) return archive;
+    verificationError = verification.reason;
+    throw new BagVerificationError(verification.reason);
+  };
 
   try {
-    const gunzip = zlib.createGunzip();
-    gunzip.on('error', (error) => {
-      console.error('Error during decompression:', error);
+    if (!fact.storage_urn) return { files: [], fileErrors: [], endpoint };
+    const transactionId = getTransactionId(fact.storage_urn);
+
+    const cachedPath = await getCachedArchivePath(transactionId);
+    if (cachedPath) {
+      endpoint = ARCHIVE_CACHE_ENDPOINT;
+      try {
+        return { ...verify(await extractArchive(createReadStream(cachedPath))), endpoint };
+      } catch (error) {
+        // Drop a corrupt or unverifiable tarball so that it's fetched again
+        await removeCachedArchive(transactionId);
+        throw error;
+      }
+    }
+
+    if (isArchiveCacheOnly()) {
+      endpoint = ARCHIVE_CACHE_ENDPOINT;
+      throw new Error(`Archive ${transactionId} is not in the archive cache`);
+    }
+
+    // Only tarballs that could be extracted are cached
+    const {
+      result: { files, fileErrors, tarball }
+    } = await withArweaveGateway(network, async (gateway) => {
+      endpoint = gateway;
+      return verify(await fetchArchive(gateway, transactionId));
     });
-    await pipelineAsync(stream, gunzip, extract);
-  } catch (err) {
-    console.error('Pipeline failed', err);
-    throw err;
-  }
+    if (tarball) await cacheArchive(transactionId, tarball);
 
-  return files;
+    return { files, fileErrors, endpoint };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    console.error(`Error fetching archive for ${fact.fact_urn}: ${error}`);
+    return { files: null, endpoint, error, verificationError };
+  }
 }
 
 async function getNodeDetailsFromArchive(network: Network, files: ArchivedFile[], nodesCache: Node[]): Promise<Node[]> {
@@ -341,32 +418,52 @@ function getFactDetailsFromArchive(files: ArchivedFile[]): Pick<ArchiveData, 'fa
   };
 }
 
-// function parseBagInfoTextFile(files: ArchivedFile[]) {
-//   const bagInfoFile = files.find((file) => file.fileName.includes('bag-info.txt'));
-//   if (!bagInfoFile || typeof bagInfoFile.content !== 'string') throw new Error('Bag info file not found in archive');
-
-//   // Convert text file contents into an object
-//   const data: Record<string, string> = bagInfoFile.content.split('\n').reduce(
-//     (acc, line) => {
-//       const [key, ...valueParts] = line.split(': ');
-//       if (key && valueParts.length > 0) {
-//         acc[key] = valueParts.join(': ').trim();
-//       }
-//       return acc;
-//     },
-//     {} as Record<string, string>
-//   );
-
-//   // Validate and parse the data
-//   const result = BagInfoSchema.safeParse(data);
-
-//   if (!result.success) {
-//     console.error('Validation errors:', result.error.format());
-//     throw new Error('Invalid data in the text file');
-//   }
+function parseBagInfoTextFile(files: ArchivedFile[]): BagInfo {
+  const bagInfoFile = files.find((file) => file.fileName.includes('bag-info.txt'));
+  if (!bagInfoFile || typeof bagInfoFile.content !== 'string') throw new Error('Bag info file not found in archive');
 
-//   return result.data;
-// }
+  // Validate and parse the data
+  const result = BagInfoSchema.safeParse(parseBagInfo(bagInfoFile.content));
+
+  if (!result.success) {
+    console.error('Validation errors:', result.error.format());
+    throw new Error('Invalid data in the text file');
+  }
+
+  return result.data;
+}
+
+async function indexBagInfoFromArchive(
+  network: Network,
+  fact: FactStatement,
+  files: ArchivedFile[]
+): Promise<BagInfo | null> {
+  try {
+    const bagInfo = parseBagInfoTextFile(files);
+
+    await upsertBagInfo({
+      network: network.id,
+      fact: fact.id,
+      fact_urn: fact.fact_urn,
+      bagging_date: new Date(bagInfo['Bagging-Date']),
+      package_version: bagInfo['Package-Version'],
+      system_version: bagInfo['System-Version'],
+      packaging_agent: bagInfo['Packaging-Agent'],
+      bag_software_agent: bagInfo['Bag-Software-Agent'],
+      source_organization: bagInfo['Source-Organization'],
+      epoch_year: bagInfo['Epoch-Year'],
+      epoch_month: bagInfo['Epoch-Month'],
+      epoch_week: bagInfo['Epoch-Week'],
+      epoch_day: bagInfo['Epoch-Day'],
+      epoch_hour: bagInfo['Epoch-Hour']
+    });
+
+    return bagInfo;
+  } catch (e) {
+    logError(`Error parsing bag info from archive for ${fact.fact_urn}`, e);
+    return null;
+  }
+}
 
 // function getEpochDays(facts: FactStatement[]): string[] {
 //   // Helper function to create a Date object at the start of a period
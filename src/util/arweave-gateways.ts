@@ -0,0 +1,151 @@
+import pLimit, { LimitFunction } from 'p-limit';
+import { ArchiveTooLargeError } from './archive-extraction.js';
+import { BagVerificationError } from './bagit.js';
+import { ArweaveGatewayHealth, DBNetwork } from './types.js';
+
+// Raised when a gateway doesn't have a transaction (yet), which doesn't count against the gateway's health
+export class ArchiveNotFoundError extends Error {
+  constructor(endpoint: string) {
+    super(`HTTP 404 from ${endpoint}`);
+    this.name = 'ArchiveNotFoundError';
+  }
+}
+
+const RECENT_ERRORS_KEPT = 5;
+// Weight of the latest request in the moving average latency
+const LATENCY_SMOOTHING = 0.2;
+
+// Gateway health is shared by all networks, as they may use the same gateways
+const gateways = new Map<string, { health: ArweaveGatewayHealth; limit: LimitFunction }>();
+
+// The network's own gateways first, then ARWEAVE_GATEWAYS (or the PRIMARY/SECONDARY_ARWEAVE_ENDPOINT env vars)
+export function getArweaveGateways(network: DBNetwork): string[] {
+  const configured = process.env.ARWEAVE_GATEWAYS
+    ? process.env.ARWEAVE_GATEWAYS.split(',')
+    : [process.env.PRIMARY_ARWEAVE_ENDPOINT, process.env.SECONDARY_ARWEAVE_ENDPOINT];
+
+  const urls = [network.primary_arweave_endpoint, network.secondary_arweave_endpoint, ...configured]
+    .map((url) => url?.trim().replace(/\/+$/, ''))
+    .filter((url): url is string => Boolean(url));
+  return [...new Set(urls)];
+}
+
+// Run a request against the network's gateways, healthiest first, moving on to the next gateway when one fails.
+// Each gateway runs at most ARWEAVE_GATEWAY_CONCURRENCY requests at a time.
+export async function withArweaveGateway<T>(
+  network: DBNetwork,
+  request: (endpoint: string) => Promise<T>
+): Promise<{ result: T; endpoint: string }> {
+  const endpoints = rankGateways(getArweaveGateways(network));
+  if (endpoints.length === 0) throw new Error(`No Arweave gateways configured for ${network.name}`);
+
+  let lastError: unknown;
+  for (const endpoint of endpoints) {
+    const { limit } = getGateway(endpoint);
+    try {
+      const result = await limit(async () => {
+        const startedAt = Date.now();
+        const response = await request(endpoint);
+        recordSuccess(endpoint, Date.now() - startedAt);
+        return response;
+      });
+      return { result, endpoint };
+    } catch (error) {
+      // Other gateways would serve the same oversized archive, so it isn't the gateway's fault
+      if (error instanceof ArchiveTooLargeError) throw error;
+      if (!(error instanceof ArchiveNotFoundError || error instanceof BagVerificationError))
+        recordFailure(endpoint, error);
+      console.warn(`Arweave gateway ${endpoint} failed: ${error instanceof Error ? error.message : error}`);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+export function getArweaveGatewayHealth(): ArweaveGatewayHealth[] {
+  return [...gateways.values()].map(({ health }) => ({ ...health, recent_errors: [...health.recent_errors] }));
+}
+
+export function logArweaveGatewayHealth() {
+  for (const health of getArweaveGatewayHealth()) {
+    const total = health.success_count + health.failure_count;
+    const successRate = total ? `${((health.success_count / total) * 100).toFixed(1)}%` : 'n/a';
+    const state = health.ejected_until && health.ejected_until > new Date() ? 'ejected' : 'healthy';
+    console.info(
+      `Arweave gateway ${health.endpoint}: ${state}, ${successRate} success of ${total}, ${Math.round(health.average_latency_ms)}ms avg latency`
+    );
+  }
+}
+
+// Gateways that aren't ejected, by score. Ejected gateways are skipped until they're restored, unless every gateway
+// is ejected, in which case they're tried in the order they'll be restored
+function rankGateways(endpoints: string[]): string[] {
+  const now = Date.now();
+  const getEjectedUntil = (endpoint: string) => getGateway(endpoint).health.ejected_until?.getTime() ?? 0;
+
+  const available = endpoints.filter((endpoint) => getEjectedUntil(endpoint) <= now);
+  const ejected = endpoints.filter((endpoint) => getEjectedUntil(endpoint) > now);
+  available.sort((a, b) => getScore(getGateway(b).health) - getScore(getGateway(a).health));
+  ejected.sort((a, b) => getEjectedUntil(a) - getEjectedUntil(b));
+  return available.length > 0 ? available : ejected;
+}
+
+// Success rate, starting from an even prior so new gateways get tried, discounted by latency
+function getScore(health: ArweaveGatewayHealth) {
+  const successRate = (health.success_count + 1) / (health.success_count + health.failure_count + 2);
+  return successRate / (1 + health.average_latency_ms / 1000);
+}
+
+function recordSuccess(endpoint: string, latencyMs: number) {
+  const { health } = getGateway(endpoint);
+  if (health.ejected_until) console.info(`Arweave gateway ${endpoint} is healthy again`);
+
+  health.success_count++;
+  health.consecutive_failures = 0;
+  health.ejected_until = null;
+  health.average_latency_ms = health.average_latency_ms
+    ? health.average_latency_ms * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING
+    : latencyMs;
+}
+
+// Eject a gateway for ARWEAVE_GATEWAY_EJECT_MINUTES after ARWEAVE_GATEWAY_MAX_FAILURES failures in a row
+function recordFailure(endpoint: string, error: unknown) {
+  const maxFailures = Number(process.env.ARWEAVE_GATEWAY_MAX_FAILURES) || 3;
+  const ejectMinutes = Number(process.env.ARWEAVE_GATEWAY_EJECT_MINUTES) || 5;
+  const { health } = getGateway(endpoint);
+
+  health.failure_count++;
+  health.consecutive_failures++;
+  health.recent_errors = [
+    { at: new Date(), message: error instanceof Error ? error.message : String(error) },
+    ...health.recent_errors
+  ].slice(0, RECENT_ERRORS_KEPT);
+
+  if (health.consecutive_failures >= maxFailures) {
+    health.ejected_until = new Date(Date.now() + ejectMinutes * 60 * 1000);
+    console.warn(
+      `Ejecting Arweave gateway ${endpoint} until ${health.ejected_until.toISOString()} after ${health.consecutive_failures} failures in a row`
+    );
+  }
+}
+
+function getGateway(endpoint: string) {
+  let gateway = gateways.get(endpoint);
+  if (!gateway) {
+    gateway = {
+      health: {
+        endpoint,
+        success_count: 0,
+        failure_count: 0,
+        consecutive_failures: 0,
+        average_latency_ms: 0,
+        recent_errors: [],
+        ejected_until: null
+      },
+      limit: pLimit(Number(process.env.ARWEAVE_GATEWAY_CONCURRENCY) || 5)
+    };
+    gateways.set(endpoint, gateway);
+  }
+  return gateway;
+}
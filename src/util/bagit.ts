@@ -0,0 +1,158 @@
+import { createHash, Hash } from 'crypto';
+import {
+  ArchivedFile,
+  BagVerificationResult,
+  ChecksumAlgorithm,
+  ValidationFile,
+  ValidationFileSchema
+} from './types.js';
+
+// Raised when an archive isn't a valid bag. Other gateways may serve a good copy, and it isn't counted against the
+// gateway's health since every gateway serves the same bag
+export class BagVerificationError extends Error {
+  constructor(reason: string) {
+    super(`Archive verification failed: ${reason}`);
+    this.name = 'BagVerificationError';
+  }
+}
+
+export const CHECKSUM_ALGORITHMS: ChecksumAlgorithm[] = ['md5', 'sha1', 'sha256', 'sha512'];
+
+// Hash an entry with every algorithm a BagIt manifest may use, since the manifests can come after the payload in the tarball
+export function createChecksumHashes(): Record<ChecksumAlgorithm, Hash> {
+  return Object.fromEntries(CHECKSUM_ALGORITHMS.map((algorithm) => [algorithm, createHash(algorithm)])) as Record<
+    ChecksumAlgorithm,
+    Hash
+  >;
+}
+
+export function digestChecksumHashes(hashes: Record<ChecksumAlgorithm, Hash>): Record<ChecksumAlgorithm, string> {
+  return Object.fromEntries(
+    CHECKSUM_ALGORITHMS.map((algorithm) => [algorithm, hashes[algorithm].digest('hex')])
+  ) as Record<ChecksumAlgorithm, string>;
+}
+
+// Parse the "Label: value" lines of bag-info.txt, joining indented continuation lines onto the previous value
+export function parseBagInfo(content: string): Record<string, string> {
+  const bagInfo: Record<string, string> = {};
+  let lastLabel: string | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\s/.test(line) && lastLabel) {
+      bagInfo[lastLabel] += ` ${line.trim()}`;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    lastLabel = line.slice(0, separator).trim();
+    bagInfo[lastLabel] = line.slice(separator + 1).trim();
+  }
+
+  return bagInfo;
+}
+
+// Verify a bag against the BagIt spec (RFC 8493): Payload-Oxum, payload and tag manifests, and finally that the
+// payload holds a validation file with a content signature
+export function verifyBag(files: ArchivedFile[]): BagVerificationResult {
+  const declaration = files.find((file) => file.fileName === 'bagit.txt');
+  if (!declaration) return { isValid: false, reason: 'bagit.txt not found in archive' };
+
+  // Paths in the manifests are relative to the directory holding bagit.txt
+  const root = declaration.name.slice(0, declaration.name.length - 'bagit.txt'.length);
+  const filesByPath = new Map(
+    files.filter((file) => file.name.startsWith(root)).map((file) => [file.name.slice(root.length), file])
+  );
+  const payloadFiles = [...filesByPath.entries()].filter(([path]) => path.startsWith('data/'));
+
+  // Payload-Oxum is "<total payload bytes>.<payload file count>"
+  const bagInfoFile = filesByPath.get('bag-info.txt');
+  if (!bagInfoFile || typeof bagInfoFile.content !== 'string')
+    return { isValid: false, reason: 'bag-info.txt not found in archive' };
+  const payloadOxum = parseBagInfo(bagInfoFile.content)['Payload-Oxum'];
+  if (payloadOxum) {
+    const actualOxum = `${payloadFiles.reduce((total, [, file]) => total + file.size, 0)}.${payloadFiles.length}`;
+    if (payloadOxum !== actualOxum)
+      return { isValid: false, reason: `Payload-Oxum mismatch: expected ${payloadOxum}, found ${actualOxum}` };
+  }
+
+  const manifests = [...filesByPath.entries()].filter(([path]) => /^manifest-\w+\.txt$/.test(path));
+  if (manifests.length === 0) return { isValid: false, reason: 'No payload manifest found in archive' };
+
+  for (const [path, manifest] of manifests) {
+    const result = verifyManifest(path, manifest, filesByPath);
+    if (!result.isValid) return result;
+
+    // Every payload file must be listed in every payload manifest
+    const listedPaths = new Set(parseManifest(String(manifest.content)).map(({ path }) => path));
+    const unlisted = payloadFiles.find(([payloadPath]) => !listedPaths.has(payloadPath));
+    if (unlisted) return { isValid: false, reason: `${unlisted[0]} is not listed in ${path}` };
+  }
+
+  for (const [path, tagManifest] of filesByPath.entries()) {
+    if (!/^tagmanifest-\w+\.txt$/.test(path)) continue;
+    const result = verifyManifest(path, tagManifest, filesByPath);
+    if (!result.isValid) return result;
+  }
+
+  return verifyContentSignature(payloadFiles.map(([, file]) => file));
+}
+
+function verifyManifest(
+  manifestPath: string,
+  manifest: ArchivedFile,
+  filesByPath: Map<string, ArchivedFile>
+): BagVerificationResult {
+  const algorithm = manifestPath.match(/manifest-(\w+)\.txt$/)?.[1] as ChecksumAlgorithm;
+  if (!CHECKSUM_ALGORITHMS.includes(algorithm))
+    return { isValid: false, reason: `Unsupported checksum algorithm in ${manifestPath}` };
+
+  for (const { checksum, path } of parseManifest(String(manifest.content))) {
+    const file = filesByPath.get(path);
+    if (!file) return { isValid: false, reason: `${path} is listed in ${manifestPath} but missing from the archive` };
+    if (file.checksums[algorithm] !== checksum.toLowerCase())
+      return { isValid: false, reason: `${algorithm} checksum mismatch for ${path}` };
+  }
+
+  return { isValid: true };
+}
+
+// Manifest lines are "<checksum> <path>", with CR, LF and % percent-encoded in paths
+function parseManifest(content: string): { checksum: string; path: string }[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.match(/^(\S+)\s+(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, checksum, path]) => ({
+      checksum,
+      path: path.replace(/%0D/gi, '\r').replace(/%0A/gi, '\n').replace(/%25/g, '%')
+    }));
+}
+
+// The content signature must match the node data it signs, as the manifests only show the files weren't altered
+// after packaging
+function verifyContentSignature(payloadFiles: ArchivedFile[]): BagVerificationResult {
+  const validationFile = payloadFiles.find((file) => file.fileName.includes('validation-'));
+  if (!validationFile) return { isValid: false, reason: 'Validation file not found in archive' };
+
+  const validation = ValidationFileSchema.safeParse(validationFile.content);
+  if (!validation.success) return { isValid: false, reason: 'Validation file does not match the expected schema' };
+
+  const { description, hasPart } = validation.data.additionalType[0].recordedIn;
+  const expectedSignature = getContentSignature(hasPart);
+  if (description.sha256.toLowerCase() !== expectedSignature)
+    return {
+      isValid: false,
+      reason: `Content signature ${description.sha256} does not match the node data (${expectedSignature})`
+    };
+
+  return { isValid: true };
+}
+
+// The collector signs its node data as the sha256 of the JSON array of the collecting timestamp, the data points
+// and the node identifier
+function getContentSignature(nodeData: ValidationFile['additionalType'][0]['recordedIn']['hasPart']): string {
+  return createHash('sha256')
+    .update(JSON.stringify(nodeData.map((part) => part.text)))
+    .digest('hex');
+}
@@ -0,0 +1,56 @@
+import cbor from 'cbor';
+import { CurrencyPairDatum, DatumSchema, FeedIdSchema } from './types.js';
+
+// Decode the Fact Statement Pointer datum into the policy ID it points to
+export function decodePolicyIdDatum(serializedDatum: string): string {
+  const decoded = cbor.decodeFirstSync(serializedDatum);
+  return decoded.toString('hex');
+}
+
+export function decodeDatum(serializedDatum: string): CurrencyPairDatum {
+  const tags = {
+    121: (val: unknown) => {
+      // Assuming the value associated with tag 121 is an array
+      if (Array.isArray(val)) {
+        return val.map((item) => {
+          if (item instanceof cbor.Tagged) {
+            return item.value; // Recursively handle nested Tagged instances.
+          }
+          return item;
+        });
+      }
+      return val;
+    }
+  };
+
+  const decoded = cbor.decodeFirstSync(serializedDatum, { tags });
+  const datum = DatumSchema.parse(decoded);
+
+  // Process datum
+  const feed_id = FeedIdSchema.parse(datum[0][0]);
+  const feed_type = feed_id.split('/')[0];
+  const feed_name = feed_id.split('/')[1];
+  const feed_version = feed_id.split('/')[2];
+  const base_ticker = feed_id.split('/')[1].split('-')[0];
+  const quote_ticker = feed_id.split('/')[1].split('-')[1];
+  const validation_date = new Date(datum[0][1]);
+  const numerator = datum[0][2][0];
+  const denominator = datum[0][2][1];
+  const value = +(numerator / denominator);
+  const formattedValue = value < 0.000001 ? +value.toFixed(10) : +value.toFixed(6);
+  const inverse_value = +(1 / formattedValue);
+  const datum_hash = decoded[0];
+
+  return {
+    feed_id,
+    feed_type,
+    feed_name,
+    feed_version,
+    base_ticker,
+    quote_ticker,
+    validation_date,
+    value,
+    datum_hash,
+    inverse_value
+  };
+}
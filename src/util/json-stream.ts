@@ -0,0 +1,90 @@
+// Incrementally parse a top-level JSON array from a byte stream, yielding each element as soon as it
+// is complete so that large responses never have to be held in memory as a whole
+export async function* parseJsonArrayStream(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const decoder = new TextDecoder();
+  let depth = 0; // 0 = before the array, 1 = between elements, 2+ = inside an element
+  let isInString = false;
+  let isEscaped = false;
+  let isComplete = false;
+  let element = '';
+
+  for await (const chunk of readChunks(body)) {
+    const text = decoder.decode(chunk, { stream: true });
+    // Index in the current chunk where the pending element starts, if any
+    let start = element ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (isInString) {
+        if (isEscaped) isEscaped = false;
+        else if (char === '\\') isEscaped = true;
+        else if (char === '"') isInString = false;
+        continue;
+      }
+
+      if (isComplete) {
+        if (!isWhitespace(char)) throw new Error('Unexpected data after the end of the JSON array');
+        continue;
+      }
+
+      if (depth === 0) {
+        if (char === '[') depth = 1;
+        else if (!isWhitespace(char)) throw new Error(`Expected a JSON array but found '${char}'`);
+        continue;
+      }
+
+      if (depth === 1) {
+        // End of a primitive element or of the array itself
+        if (char === ',' || char === ']') {
+          if (start !== -1) {
+            element += text.slice(start, i);
+            yield JSON.parse(element);
+            element = '';
+            start = -1;
+          }
+          if (char === ']') isComplete = true;
+          continue;
+        }
+        if (isWhitespace(char)) continue;
+        if (start === -1) start = i;
+      }
+
+      if (char === '"') {
+        isInString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        // End of an object or array element
+        if (depth === 1) {
+          element += text.slice(start, i + 1);
+          yield JSON.parse(element);
+          element = '';
+          start = -1;
+        }
+      }
+    }
+
+    if (start !== -1) element += text.slice(start);
+  }
+
+  if (!isComplete) throw new Error('Unexpected end of JSON array stream');
+}
+
+async function* readChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function isWhitespace(char: string) {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t';
+}
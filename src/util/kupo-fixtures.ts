@@ -0,0 +1,166 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+import { dirname, join } from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ReadableStream } from 'stream/web';
+import { logError } from './logger.js';
+import { createReadStream, createWriteStream } from 'fs';
+import { appendFile, mkdir, readFile, rm, stat } from 'fs/promises';
+import { DBNetwork, KupoExchange, KupoExchangeSchema } from './types.js';
+
+// Recorded exchanges are appended in request order, each once its body has been written out
+let recordingQueue: Promise<void> = Promise.resolve();
+
+// Record a Kupo response to the network's fixture file when KUPO_RECORD_DIR is set. A JSON body is teed to a temporary
+// file as the caller reads it, so streamed responses aren't buffered in memory. Returns the response to read.
+export function recordKupoExchange(
+  network: DBNetwork,
+  path: string,
+  ifNoneMatch: string | null,
+  response: Response
+): Response {
+  const recordDir = process.env.KUPO_RECORD_DIR;
+  if (!recordDir) return response;
+
+  const filePath = getFixtureFilePath(recordDir, network);
+  const exchange: Omit<KupoExchange, 'body'> = {
+    path,
+    if_none_match: ifNoneMatch,
+    status: response.status,
+    headers: {
+      etag: response.headers.get('etag'),
+      'x-most-recent-checkpoint': response.headers.get('x-most-recent-checkpoint')
+    }
+  };
+
+  const isJson = response.status !== 304 && response.headers.get('content-type')?.includes('json');
+  if (!isJson || !response.body) {
+    queueRecordedExchange(filePath, exchange, null);
+    return response;
+  }
+
+  const [recordedBody, body] = response.body.tee();
+  queueRecordedExchange(filePath, exchange, writeRecordedBody(filePath, recordedBody as ReadableStream<Uint8Array>));
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+// Resolves once every exchange recorded so far has been appended to its fixture file
+export function flushKupoRecordings(): Promise<void> {
+  return recordingQueue;
+}
+
+function queueRecordedExchange(
+  filePath: string,
+  exchange: Omit<KupoExchange, 'body'>,
+  recordedBody: Promise<string> | null
+) {
+  // The body is awaited in turn, so mark a failed write as handled until then
+  recordedBody?.catch(() => {});
+  recordingQueue = recordingQueue
+    .then(() => appendRecordedExchange(filePath, exchange, recordedBody))
+    .catch((error) => logError(`Error recording Kupo response for ${exchange.path}`, error));
+}
+
+async function writeRecordedBody(filePath: string, body: ReadableStream<Uint8Array>): Promise<string> {
+  await mkdir(dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+  // JSON strings can't hold raw line breaks, so dropping them keeps the body on the exchange's line
+  const stripLineBreaks = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, Buffer.from(chunk.filter((byte) => byte !== 0x0a && byte !== 0x0d)));
+    }
+  });
+  await pipeline(Readable.fromWeb(body), stripLineBreaks, createWriteStream(tempPath));
+  return tempPath;
+}
+
+async function appendRecordedExchange(
+  filePath: string,
+  exchange: Omit<KupoExchange, 'body'>,
+  recordedBody: Promise<string> | null
+) {
+  const tempPath = recordedBody ? await recordedBody : null;
+  try {
+    await mkdir(dirname(filePath), { recursive: true });
+    const line = JSON.stringify({ ...exchange, body: null });
+    if (!tempPath || (await stat(tempPath)).size === 0) {
+      await appendFile(filePath, `${line}\n`);
+      return;
+    }
+
+    // body is the last field, so the recorded body is streamed in place of its null
+    await pipeline(
+      async function* () {
+        yield line.slice(0, -'null}'.length);
+        yield* createReadStream(tempPath);
+        yield '}\n';
+      },
+      createWriteStream(filePath, { flags: 'a' })
+    );
+  } finally {
+    if (tempPath) await rm(tempPath, { force: true });
+  }
+}
+
+export function getFixtureFilePath(recordDir: string, network: Pick<DBNetwork, 'name'>) {
+  return join(recordDir, `${network.name.toLowerCase()}.jsonl`);
+}
+
+export async function loadKupoExchanges(filePath: string): Promise<KupoExchange[]> {
+  const contents = await readFile(filePath, 'utf-8');
+  return contents
+    .split('\n')
+    .filter((line) => line.trim() !== '')
+    .map((line) => KupoExchangeSchema.parse(JSON.parse(line)));
+}
+
+// Serve recorded exchanges the way Kupo would. Responses for the same request are replayed in recorded order
+// (repeating the last one once exhausted), so editing the x-most-recent-checkpoint of a later exchange
+// scripts a checkpoint regression. A request whose If-None-Match equals the etag to serve gets a 304.
+export function createKupoStandIn(exchanges: KupoExchange[]) {
+  const exchangesByPath = new Map<string, KupoExchange[]>();
+  for (const exchange of exchanges) {
+    const key = normalizeKupoPath(exchange.path);
+    exchangesByPath.set(key, [...(exchangesByPath.get(key) ?? []), exchange]);
+  }
+  const cursors = new Map<string, number>();
+
+  const app = express();
+  app.use((req, res) => {
+    const key = normalizeKupoPath(req.originalUrl);
+    const recorded = exchangesByPath.get(key);
+    if (!recorded) {
+      console.warn(`No recorded Kupo response for ${req.originalUrl}`);
+      res.status(404).json({ hint: `No recorded response for ${req.originalUrl}` });
+      return;
+    }
+
+    const cursor = cursors.get(key) ?? 0;
+    const exchange = recorded[Math.min(cursor, recorded.length - 1)];
+    cursors.set(key, cursor + 1);
+
+    if (exchange.headers.etag) res.set('etag', exchange.headers.etag);
+    if (exchange.headers['x-most-recent-checkpoint'])
+      res.set('x-most-recent-checkpoint', exchange.headers['x-most-recent-checkpoint']);
+
+    const ifNoneMatch = req.header('if-none-match');
+    if (exchange.status === 304 || (ifNoneMatch && ifNoneMatch === exchange.headers.etag)) {
+      res.status(304).end();
+      return;
+    }
+
+    res.status(exchange.status).json(exchange.body);
+  });
+
+  return app;
+}
+
+// Sort query parameters so recorded and replayed requests match regardless of parameter order
+export function normalizeKupoPath(path: string) {
+  const url = new URL(path, 'http://kupo');
+  url.searchParams.sort();
+  const query = url.searchParams.toString();
+  return `${url.pathname}${query ? `?${query}` : ''}`;
+}
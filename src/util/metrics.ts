@@ -0,0 +1,112 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { dateToSlot } from './network.js';
+import { getTrackedNetworks } from './status.js';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const factsIndexedCounter = new Counter({
+  name: 'explorer_index_facts_total',
+  help: 'Fact statements processed by indexFactStatements, by result',
+  labelNames: ['network', 'result'] as const,
+  registers: [metricsRegistry]
+});
+
+export const kupoRequestDuration = new Histogram({
+  name: 'explorer_index_kupo_request_duration_seconds',
+  help: 'Latency of requests made to the chain index (Kupo)',
+  labelNames: ['network', 'endpoint', 'status'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry]
+});
+
+export const kupoNotModifiedCounter = new Counter({
+  name: 'explorer_index_kupo_not_modified_total',
+  help: 'Kupo match requests answered with 304 Not Modified',
+  labelNames: ['network'] as const,
+  registers: [metricsRegistry]
+});
+
+export const archivesCounter = new Counter({
+  name: 'explorer_index_archives_total',
+  help: 'Archives processed by indexArchives, by result (success, unverified, retrying, gave_up)',
+  labelNames: ['network', 'result'] as const,
+  registers: [metricsRegistry]
+});
+
+export const archiveCacheCounter = new Counter({
+  name: 'explorer_index_archive_cache_total',
+  help: 'Archive cache lookups and evictions, by result (hit, miss, evicted)',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry]
+});
+
+export const discrepanciesCounter = new Counter({
+  name: 'explorer_index_discrepancies_total',
+  help: 'Archived fact values that do not match the chain, by field',
+  labelNames: ['network', 'field'] as const,
+  registers: [metricsRegistry]
+});
+
+export const sourceOutliersCounter = new Counter({
+  name: 'explorer_index_source_outliers_total',
+  help: 'Source observations that deviate from the published fact value beyond SOURCE_OUTLIER_THRESHOLD',
+  labelNames: ['network', 'source'] as const,
+  registers: [metricsRegistry]
+});
+
+export const rollbacksCounter = new Counter({
+  name: 'explorer_index_rollbacks_total',
+  help: 'Chain rollbacks handled',
+  labelNames: ['network'] as const,
+  registers: [metricsRegistry]
+});
+
+export const orphanedFactsCounter = new Counter({
+  name: 'explorer_index_orphaned_facts_total',
+  help: 'Facts removed because their block was rolled back',
+  labelNames: ['network'] as const,
+  registers: [metricsRegistry]
+});
+
+export const fspChangesCounter = new Counter({
+  name: 'explorer_index_fsp_changes_total',
+  help: 'Fact Statement Pointer policy changes, by status (accepted, rejected)',
+  labelNames: ['network', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const syncDuration = new Histogram({
+  name: 'explorer_index_sync_duration_seconds',
+  help: 'Duration of a sync cycle, by network and result',
+  labelNames: ['network', 'result'] as const,
+  buckets: [1, 5, 10, 30, 60, 120, 300, 600, 1800],
+  registers: [metricsRegistry]
+});
+
+new Gauge({
+  name: 'explorer_index_chain_lag_slots',
+  help: 'Wall-clock slot minus the last indexed checkpoint slot',
+  labelNames: ['network'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    this.reset();
+    for (const network of getTrackedNetworks()) {
+      if (!network.last_checkpoint_slot) continue;
+      this.set({ network: network.name }, dateToSlot(new Date(), network) - network.last_checkpoint_slot);
+    }
+  }
+});
+
+new Gauge({
+  name: 'explorer_index_checkpoint_slot',
+  help: 'Last indexed checkpoint slot',
+  labelNames: ['network'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    this.reset();
+    for (const network of getTrackedNetworks()) {
+      this.set({ network: network.name }, network.last_checkpoint_slot);
+    }
+  }
+});
@@ -9,6 +9,7 @@ export const NetworkSeeds: NetworkSeed[] = [
     arweave_system_identifier: 'urn:orcfax:system:00000000-0000-0000-0000-000000000000',
     cardano_smart_contract_address: 'addr_test1vr6lx0dk534vvv93js4n0qnqs0y9mkxtursdwc7ed7szeqgur3u54',
     chain_index_base_url: process.env.PREVIEW_CHAIN_INDEX_BASE_URL,
+    chain_index_provider: 'kupo',
     active_feeds_url: 'https://raw.githubusercontent.com/orcfax/cer-feeds/main/feeds/preview/cer-feeds.json',
     block_explorer_base_url: 'https://preview.cexplorer.io',
     arweave_explorer_base_url: 'https://arweave.net',
@@ -18,6 +19,9 @@ export const NetworkSeeds: NetworkSeed[] = [
     last_block_hash: '',
     last_checkpoint_slot: 0,
     is_enabled: true,
+    is_archive_enabled: true,
+    primary_arweave_endpoint: '',
+    secondary_arweave_endpoint: '',
     ignore_policies: [
       '900d528f3c1864a1376db1afc065c9b293a2235f39b00a674badf00d',
       '900d528f3c1864a1376db1afc065c9b293a2235f39b00a67455a6724'
@@ -31,6 +35,7 @@ export const NetworkSeeds: NetworkSeed[] = [
     arweave_system_identifier: 'urn:orcfax:system:f0122760-64f8-445d-bd28-9c93a6391f89',
     cardano_smart_contract_address: 'addr1vy7p9anntmu8v4w9kfaua5lc9rv9059z0lfq7tx6rr4l97c9w4kcq',
     chain_index_base_url: process.env.MAINNET_CHAIN_INDEX_BASE_URL,
+    chain_index_provider: 'kupo',
     active_feeds_url: 'https://raw.githubusercontent.com/orcfax/cer-feeds/main/feeds/mainnet/cer-feeds.json',
     block_explorer_base_url: 'https://cexplorer.io',
     arweave_explorer_base_url: 'https://arweave.net',
@@ -40,6 +45,9 @@ export const NetworkSeeds: NetworkSeed[] = [
     last_block_hash: '',
     last_checkpoint_slot: 0,
     is_enabled: true,
+    is_archive_enabled: true,
+    primary_arweave_endpoint: '',
+    secondary_arweave_endpoint: '',
     ignore_policies: []
   }
 ];
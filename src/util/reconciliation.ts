@@ -0,0 +1,104 @@
+import { logError } from './logger.js';
+import { replaceDiscrepancies } from '../db.js';
+import { discrepanciesCounter } from './metrics.js';
+import { getValidationFileValue, parseValidationFile } from './validation-files.js';
+import { Network, BagInfo, Discrepancy, ArchivedFile, FactStatement } from './types.js';
+
+type ArchiveValue = Pick<Discrepancy, 'field' | 'archive_file' | 'on_chain_value' | 'archive_value'>;
+
+// Compare the values a fact's archive claims with the values read from the chain. Mismatches are recorded in the
+// discrepancies collection and alerted, returning the number found
+export async function reconcileArchive(
+  network: Network,
+  fact: FactStatement,
+  files: ArchivedFile[],
+  bagInfo: BagInfo | null
+): Promise<number> {
+  const mismatches = [...getBagInfoMismatches(fact, bagInfo), ...getValidationFileMismatches(fact, files)];
+
+  await replaceDiscrepancies(
+    fact,
+    mismatches.map((mismatch) => ({
+      ...mismatch,
+      network: network.id,
+      fact: fact.id,
+      fact_urn: fact.fact_urn,
+      detected_at: new Date()
+    }))
+  );
+  if (mismatches.length === 0) return 0;
+
+  for (const { field } of mismatches) discrepanciesCounter.inc({ network: network.name, field });
+  const mismatchList = mismatches
+    .map((m) => `  - ${m.field} (${m.archive_file}): on-chain ${m.on_chain_value}, archive ${m.archive_value}`)
+    .join('\n');
+  logError(`Archive for ${fact.fact_urn} on ${network.name} does not match the chain:\n${mismatchList}`);
+
+  return mismatches.length;
+}
+
+function getBagInfoMismatches(fact: FactStatement, bagInfo: BagInfo | null): ArchiveValue[] {
+  if (!bagInfo) return [];
+  const mismatches: ArchiveValue[] = [];
+  const archiveFile = 'bag-info.txt';
+
+  if (!isSameValue(fact.value, bagInfo['Fact-Datum-Value'])) {
+    mismatches.push({
+      field: 'value',
+      archive_file: archiveFile,
+      on_chain_value: String(fact.value),
+      archive_value: String(bagInfo['Fact-Datum-Value'])
+    });
+  }
+
+  if (bagInfo['Fact-Datum-URN'] !== fact.fact_urn) {
+    mismatches.push({
+      field: 'fact_urn',
+      archive_file: archiveFile,
+      on_chain_value: fact.fact_urn,
+      archive_value: bagInfo['Fact-Datum-URN']
+    });
+  }
+
+  // Compared to the second, as the archive may not carry milliseconds
+  const archiveValidationDate = new Date(bagInfo['Fact-Validation-Date']);
+  if (Math.floor(archiveValidationDate.getTime() / 1000) !== Math.floor(fact.validation_date.getTime() / 1000)) {
+    mismatches.push({
+      field: 'validation_date',
+      archive_file: archiveFile,
+      on_chain_value: fact.validation_date.toISOString(),
+      archive_value: bagInfo['Fact-Validation-Date']
+    });
+  }
+
+  return mismatches;
+}
+
+// The validation file holds the median (CEX feeds) or volume weighted average (DEX feeds) that was put on chain
+function getValidationFileMismatches(fact: FactStatement, files: ArchivedFile[]): ArchiveValue[] {
+  if (!files.some((file) => file.fileName.includes('validation-'))) return [];
+
+  const validationFile = parseValidationFile(files);
+  if (!validationFile) {
+    console.warn(`Unrecognised validation file for ${fact.fact_urn}, skipping value reconciliation`);
+    return [];
+  }
+
+  const value = getValidationFileValue(validationFile);
+  if (isSameValue(fact.value, value)) return [];
+
+  return [
+    {
+      field: 'value',
+      archive_file: validationFile.fileName,
+      on_chain_value: String(fact.value),
+      archive_value: String(value)
+    }
+  ];
+}
+
+// The chain stores the value as a fraction, so allow for the rounding of the decimal in the archive
+function isSameValue(onChainValue: number, archiveValue: number) {
+  const tolerance = Number(process.env.RECONCILIATION_VALUE_TOLERANCE) || 0.000001;
+  return Math.abs(onChainValue - archiveValue) <= tolerance * Math.max(Math.abs(onChainValue), Number.EPSILON);
+}
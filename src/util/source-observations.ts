@@ -0,0 +1,176 @@
+import { sourceOutliersCounter } from './metrics.js';
+import {
+  getSourceObservationsBetween,
+  getSourceOutlierStats,
+  replaceSourceObservations,
+  upsertSourceOutlierStats
+} from '../db.js';
+import { parseValidationFile, ParsedValidationFile } from './validation-files.js';
+import {
+  Network,
+  Source,
+  ArchivedFile,
+  FactStatement,
+  SourceObservation,
+  SourceOutlierStats,
+  FactSourceMessageSchema
+} from './types.js';
+
+type ObservedValue = Pick<SourceObservation, 'source' | 'source_name' | 'feed_type' | 'value' | 'volume'>;
+type Deviation = Pick<SourceObservation, 'deviation' | 'is_outlier'>;
+type DailyStats = Pick<SourceOutlierStats, 'observation_count' | 'outlier_count' | 'mean_deviation' | 'max_deviation'>;
+
+// Roll-ups of the same source and day run in turn, since each one updates the stats the previous one wrote
+const rollUpQueues = new Map<string, Promise<void>>();
+
+// Record the value each source contributed to a fact and how far it is from the published value, replacing any
+// observations from an earlier index of its archive
+export async function indexSourceObservations(
+  network: Network,
+  fact: FactStatement,
+  files: ArchivedFile[],
+  sources: Source[]
+): Promise<SourceObservation[]> {
+  const validationFile = parseValidationFile(files);
+  if (!validationFile) {
+    console.warn(`Unrecognised validation file for ${fact.fact_urn}, skipping source observations`);
+    return [];
+  }
+
+  const threshold = Number(process.env.SOURCE_OUTLIER_THRESHOLD) || 0.02;
+  const observations = getObservedValues(validationFile, files, sources).map((observation) => {
+    const deviation = fact.value ? (observation.value - fact.value) / fact.value : 0;
+    return {
+      ...observation,
+      network: network.id,
+      fact: fact.id,
+      fact_urn: fact.fact_urn,
+      validation_date: fact.validation_date,
+      deviation,
+      is_outlier: Math.abs(deviation) > threshold
+    };
+  });
+
+  const outliers = observations.filter((observation) => observation.is_outlier);
+  for (const outlier of outliers) sourceOutliersCounter.inc({ network: network.name, source: outlier.source_name });
+  if (outliers.length > 0) {
+    const outlierList = outliers.map((o) => `${o.source_name || 'unknown'} (${(o.deviation * 100).toFixed(2)}%)`);
+    console.warn(`Outlier sources for ${fact.fact_urn}: ${outlierList.join(', ')}`);
+  }
+
+  const { replaced, created } = await replaceSourceObservations(fact, observations);
+  await rollUpSourceOutlierStats(network, replaced, created);
+  return created;
+}
+
+// Update the daily stats of every source observed with the new observations, less the ones they replaced. A day is
+// only recomputed from all of its observations when a replaced observation may have held its max deviation
+async function rollUpSourceOutlierStats(network: Network, replaced: SourceObservation[], created: SourceObservation[]) {
+  const changes = new Map<string, { source: string; day: Date; replaced: Deviation[]; created: Deviation[] }>();
+  const addChange = (observation: SourceObservation, kind: 'replaced' | 'created') => {
+    if (!observation.source) return;
+    const day = new Date(observation.validation_date);
+    day.setUTCHours(0, 0, 0, 0);
+
+    const key = `${observation.source}/${day.toISOString()}`;
+    const change = changes.get(key) ?? { source: observation.source, day, replaced: [], created: [] };
+    change[kind].push(observation);
+    changes.set(key, change);
+  };
+  replaced.forEach((observation) => addChange(observation, 'replaced'));
+  created.forEach((observation) => addChange(observation, 'created'));
+
+  for (const [key, { source, day, ...change }] of changes) {
+    await queueRollUp(key, async () => {
+      const stats = await getSourceOutlierStats(source, day);
+      const replacedMax = Math.max(0, ...change.replaced.map(({ deviation }) => Math.abs(deviation)));
+      const isStale = change.replaced.length > 0 && (!stats || replacedMax >= stats.max_deviation);
+
+      const dailyStats = isStale
+        ? await computeDailyStats(source, day)
+        : updateDailyStats(stats, change.replaced, change.created);
+      await upsertSourceOutlierStats({ network: network.id, source, day, ...dailyStats });
+    });
+  }
+}
+
+async function queueRollUp(key: string, rollUp: () => Promise<void>) {
+  const queued = (rollUpQueues.get(key) ?? Promise.resolve()).then(rollUp);
+  // The next roll-up of the key runs once this one settles, even if it fails
+  const settled = queued.catch(() => {});
+  rollUpQueues.set(key, settled);
+  try {
+    await queued;
+  } finally {
+    if (rollUpQueues.get(key) === settled) rollUpQueues.delete(key);
+  }
+}
+
+function updateDailyStats(stats: DailyStats | null, replaced: Deviation[], created: Deviation[]): DailyStats {
+  const sum = (deviations: Deviation[]) => deviations.reduce((total, { deviation }) => total + Math.abs(deviation), 0);
+  const countOutliers = (deviations: Deviation[]) => deviations.filter(({ is_outlier }) => is_outlier).length;
+
+  const previousCount = stats?.observation_count ?? 0;
+  const count = previousCount - replaced.length + created.length;
+  const total = (stats?.mean_deviation ?? 0) * previousCount - sum(replaced) + sum(created);
+  return {
+    observation_count: count,
+    outlier_count: (stats?.outlier_count ?? 0) - countOutliers(replaced) + countOutliers(created),
+    mean_deviation: count > 0 ? total / count : 0,
+    max_deviation: Math.max(stats?.max_deviation ?? 0, ...created.map(({ deviation }) => Math.abs(deviation)))
+  };
+}
+
+async function computeDailyStats(source: string, day: Date): Promise<DailyStats> {
+  const nextDay = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  return updateDailyStats(null, [], await getSourceObservationsBetween(source, day, nextDay));
+}
+
+function getObservedValues(
+  validationFile: ParsedValidationFile,
+  files: ArchivedFile[],
+  sources: Source[]
+): ObservedValue[] {
+  if (validationFile.type === 'CEX') {
+    // The sources are listed in measurementTechnique, in the same order as their prices in valueReference
+    const cexSources = sources.filter((source) => source.type === 'CEX API');
+    const { measurementTechnique, variableMeasured } = validationFile.contents.additionalType[1].about;
+    return variableMeasured.valueReference.map((value, i) => {
+      const sourceName = measurementTechnique[i]?.name ?? '';
+      const source = cexSources.find((cached) => cached.name.toLowerCase() === sourceName.toLowerCase());
+      return { source: source?.id ?? '', source_name: sourceName, feed_type: 'CEX', value, volume: 0 };
+    });
+  }
+
+  // DEX validation files don't name their sources, so a [price, volume] pair is only linked to a DEX source when
+  // exactly one source's message file holds its price, and no other pair's price is found in that message
+  const { valueReference } = validationFile.contents.additionalType[1].about;
+  const messages = getDexMessageValues(files, sources);
+  const candidates = valueReference.map(([value]) => messages.filter(({ values }) => values.has(value)));
+  return valueReference.map(([value, volume], i) => {
+    const [match, ...others] = candidates[i];
+    const isUnique = match && others.length === 0 && candidates.every((other, j) => j === i || !other.includes(match));
+    const source = isUnique ? match.source : undefined;
+    return { source: source?.id ?? '', source_name: source?.name ?? '', feed_type: 'DEX', value, volume: volume ?? 0 };
+  });
+}
+
+// The numbers in each DEX message file of the archive, with the source it was received from
+function getDexMessageValues(files: ArchivedFile[], sources: Source[]) {
+  return files.flatMap((file) => {
+    if (!file.fileName.includes('message-')) return [];
+    const message = FactSourceMessageSchema.safeParse(file.content);
+    if (!message.success) return [];
+
+    const source = sources.find((cached) => cached.type === 'DEX LP' && cached.recipient === message.data.recipient);
+    return source ? [{ source, values: new Set(getNumbers(file.content)) }] : [];
+  });
+}
+
+// Every number in a message, including numeric strings, as sources serialize prices either way
+function getNumbers(content: unknown): number[] {
+  if (typeof content === 'number') return [content];
+  if (typeof content === 'string') return content.trim() && Number.isFinite(Number(content)) ? [Number(content)] : [];
+  if (content && typeof content === 'object') return Object.values(content).flatMap(getNumbers);
+  return [];
+}
@@ -0,0 +1,95 @@
+import { Network, NetworkSyncStatus } from './types.js';
+import { getArweaveGatewayHealth } from './arweave-gateways.js';
+
+// In-memory view of the indexer's state, shared between the cron jobs and the HTTP server
+let trackedNetworks: Network[] = [];
+let isReady = false;
+const syncStatuses = new Map<string, NetworkSyncStatus>();
+
+export function trackNetworks(networks: Network[]) {
+  trackedNetworks = networks;
+}
+
+export function getTrackedNetworks(): Network[] {
+  return trackedNetworks;
+}
+
+export function markReady() {
+  isReady = true;
+}
+
+export function isIndexReady(): boolean {
+  return isReady;
+}
+
+export function markSyncStarted(network: Network) {
+  const status = getSyncStatus(network);
+  status.is_syncing = true;
+  status.last_sync_started_at = new Date();
+}
+
+export function markSyncSucceeded(network: Network) {
+  const status = getSyncStatus(network);
+  status.is_syncing = false;
+  status.last_successful_sync_at = new Date();
+}
+
+export function markSyncFailed(network: Network, error: unknown) {
+  const status = getSyncStatus(network);
+  status.is_syncing = false;
+  status.last_failed_sync_at = new Date();
+  status.last_sync_error = error instanceof Error ? error.message : String(error);
+}
+
+// A sync that has been running for longer than the stall threshold is considered wedged
+export function getStalledNetworks(): string[] {
+  const stallMinutes = Number(process.env.SYNC_STALL_MINUTES) || 30;
+  const now = Date.now();
+
+  return trackedNetworks
+    .filter((network) => {
+      const status = syncStatuses.get(network.name);
+      if (!status?.is_syncing || !status.last_sync_started_at) return false;
+      return now - status.last_sync_started_at.getTime() > stallMinutes * 60 * 1000;
+    })
+    .map((network) => network.name);
+}
+
+export function getIndexStatus() {
+  return {
+    is_ready: isReady,
+    networks: trackedNetworks.map((network) => {
+      const activePolicy = [...network.policies].sort((a, b) => b.starting_slot - a.starting_slot)[0];
+      return {
+        name: network.name,
+        is_enabled: network.is_enabled,
+        last_checkpoint_slot: network.last_checkpoint_slot,
+        last_block_hash: network.last_block_hash,
+        active_policy: activePolicy
+          ? {
+              policy_id: activePolicy.policy_id,
+              starting_slot: activePolicy.starting_slot,
+              starting_date: activePolicy.starting_date
+            }
+          : null,
+        sync: getSyncStatus(network)
+      };
+    }),
+    arweave_gateways: getArweaveGatewayHealth()
+  };
+}
+
+function getSyncStatus(network: Network): NetworkSyncStatus {
+  let status = syncStatuses.get(network.name);
+  if (!status) {
+    status = {
+      is_syncing: false,
+      last_sync_started_at: null,
+      last_successful_sync_at: null,
+      last_failed_sync_at: null,
+      last_sync_error: null
+    };
+    syncStatuses.set(network.name, status);
+  }
+  return status;
+}
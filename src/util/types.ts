@@ -7,9 +7,32 @@ export type Policy = z.infer<typeof PolicySchema>;
 export type Source = z.infer<typeof SourceSchema>;
 export type Network = z.infer<typeof NetworkSchema>;
 export type DBNetwork = z.infer<typeof DBNetworkSchema>;
+export type ChainIndexProviderType = z.infer<typeof ChainIndexProviderTypeSchema>;
 export type NetworkSeed = z.infer<typeof NetworkSeedSchema>;
 export type FactStatement = z.infer<typeof FactStatementSchema>;
+// The fields of a fact statement read from the chain, the rest are filled in from its archive
+export type OnChainFactStatement = Omit<
+  FactStatement,
+  | 'id'
+  | 'participating_nodes'
+  | 'sources'
+  | 'content_signature'
+  | 'collection_date'
+  | 'is_archive_indexed'
+  | 'archive_verification_status'
+  | 'archive_verification_error'
+>;
 export type Asset = z.infer<typeof AssetSchema>;
+export type Rollback = z.infer<typeof RollbackSchema>;
+export type JobState = z.infer<typeof JobStateSchema>;
+export type FactBagInfo = z.infer<typeof FactBagInfoSchema>;
+export type Discrepancy = z.infer<typeof DiscrepancySchema>;
+export type SourceObservation = z.infer<typeof SourceObservationSchema>;
+export type SourceOutlierStats = z.infer<typeof SourceOutlierStatsSchema>;
+export type ArchiveRetry = z.infer<typeof ArchiveRetrySchema>;
+export type FSPChange = z.infer<typeof FSPChangeSchema>;
+
+export const ChainIndexProviderTypeSchema = z.enum(['kupo']);
 
 export const DBNetworkSchema = z.object({
   id: z.string(),
@@ -20,6 +43,9 @@ export const DBNetworkSchema = z.object({
   arweave_system_identifier: z.string(),
   cardano_smart_contract_address: z.string(),
   chain_index_base_url: z.string(),
+  // Chain index backend used to read the network, defaults to Kupo when unset (PocketBase returns unset fields as '').
+  // An unsupported provider fails the network's parse instead of silently falling back
+  chain_index_provider: z.preprocess((value) => value || undefined, ChainIndexProviderTypeSchema.default('kupo')),
   active_feeds_url: z.string(),
   block_explorer_base_url: z.string(),
   arweave_explorer_base_url: z.string(),
@@ -28,7 +54,12 @@ export const DBNetworkSchema = z.object({
   zero_time: z.number(),
   zero_slot: z.number(),
   slot_length: z.number(),
-  is_enabled: z.boolean()
+  is_enabled: z.boolean(),
+  // Index fact archives from Arweave, through the network's gateways or the *_ARWEAVE_ENDPOINT env vars when unset.
+  // Missing on records created before the flag, which getAllNetworks resolves
+  is_archive_enabled: z.boolean().optional(),
+  primary_arweave_endpoint: z.string().catch(''),
+  secondary_arweave_endpoint: z.string().catch('')
 });
 
 export const PolicySchema = z.object({
@@ -41,6 +72,7 @@ export const PolicySchema = z.object({
 });
 
 export const NetworkSchema = DBNetworkSchema.extend({
+  is_archive_enabled: z.boolean(),
   policies: z.array(PolicySchema)
 });
 
@@ -105,7 +137,10 @@ export const FactStatementSchema = z.object({
     .catch(() => {
       return null;
     }),
-  is_archive_indexed: z.boolean().nullable()
+  is_archive_indexed: z.boolean().nullable(),
+  // Result of verifying the archive bag's manifests and content signature, empty until the archive is indexed
+  archive_verification_status: z.enum(['verified', 'failed', '']).catch(''),
+  archive_verification_error: z.string().catch('')
 });
 
 export const AssetSchema = z.object({
@@ -137,6 +172,140 @@ export const FeedSchema = z.object({
   base_asset: z.string()
 });
 
+export const RollbackSchema = z.object({
+  id: z.string(),
+  network: z.string(),
+  detected_at: z.coerce.date(),
+  previous_checkpoint_slot: z.number(),
+  previous_block_hash: z.string(),
+  tip_slot: z.number(),
+  tip_block_hash: z.string(),
+  intersection_slot: z.number(),
+  intersection_block_hash: z.string(),
+  orphaned_fact_urns: z.array(z.string())
+});
+
+// Progress of a resumable background job (e.g. the archive backfill), one record per job and network
+export const JobStateSchema = z.object({
+  id: z.string(),
+  job: z.string(),
+  network: z.string(),
+  status: z.enum(['idle', 'running', 'failed']),
+  // Everything before this date has been processed
+  cursor_date: z.coerce
+    .date()
+    .nullable()
+    .catch(() => null),
+  processed_count: z.number(),
+  indexed_count: z.number(),
+  failed_count: z.number(),
+  last_error: z.string(),
+  last_run_at: z.coerce
+    .date()
+    .nullable()
+    .catch(() => null)
+});
+
+// Packaging metadata from a fact's archive bag-info.txt, one record per fact
+export const FactBagInfoSchema = z.object({
+  id: z.string(),
+  network: z.string(),
+  fact: z.string(),
+  fact_urn: z.string(),
+  bagging_date: z.coerce.date(),
+  package_version: z.number(),
+  system_version: z.string(),
+  packaging_agent: z.string(),
+  bag_software_agent: z.string(),
+  source_organization: z.string(),
+  epoch_year: z.number(),
+  epoch_month: z.number(),
+  epoch_week: z.number(),
+  epoch_day: z.number(),
+  epoch_hour: z.number()
+});
+
+// A fact value in its archive that doesn't match the value read from the chain
+export const DiscrepancySchema = z.object({
+  id: z.string(),
+  network: z.string(),
+  fact: z.string(),
+  fact_urn: z.string(),
+  field: z.enum(['value', 'fact_urn', 'validation_date']),
+  // Archive file the value was read from, e.g. bag-info.txt or the validation file
+  archive_file: z.string(),
+  on_chain_value: z.string(),
+  archive_value: z.string(),
+  detected_at: z.coerce.date()
+});
+
+// The value a single source contributed to a fact, read from the archive's validation file
+export const SourceObservationSchema = z.object({
+  id: z.string(),
+  network: z.string(),
+  fact: z.string(),
+  fact_urn: z.string(),
+  // Empty when the observation can't be matched to one of the archive's sources
+  source: z.string(),
+  source_name: z.string(),
+  feed_type: z.enum(['CEX', 'DEX']),
+  // Price reported by the source
+  value: z.number(),
+  // Volume/liquidity weight of a DEX source in the average, 0 for CEX sources
+  volume: z.number(),
+  validation_date: z.coerce.date(),
+  // Relative deviation of the value from the fact's published value, flagged beyond SOURCE_OUTLIER_THRESHOLD
+  deviation: z.number().catch(0),
+  is_outlier: z.boolean().catch(false)
+});
+
+// Daily roll-up of a source's observations, to find sources that are consistently off-market
+export const SourceOutlierStatsSchema = z.object({
+  id: z.string(),
+  network: z.string(),
+  source: z.string(),
+  // Start of the UTC day the observed facts were validated on
+  day: z.coerce.date(),
+  observation_count: z.number(),
+  outlier_count: z.number(),
+  // Mean and max of the absolute relative deviations
+  mean_deviation: z.number(),
+  max_deviation: z.number()
+});
+
+// Retry state of a fact whose archive couldn't be fetched, removed once the archive is fetched
+export const ArchiveRetrySchema = z.object({
+  id: z.string(),
+  network: z.string(),
+  fact: z.string(),
+  fact_urn: z.string(),
+  // Retries stop after ARCHIVE_MAX_ATTEMPTS, until the fact is requeued
+  status: z.enum(['pending', 'gave_up']),
+  attempt_count: z.number(),
+  last_error: z.string(),
+  last_endpoint: z.string(),
+  last_attempt_at: z.coerce.date(),
+  next_attempt_at: z.coerce.date()
+});
+
+// A new policy ID in the Fact Statement Pointer datum, one record per pointer UTxO. Rejected changes don't switch
+// the active policy and are checked again on the next sync
+export const FSPChangeSchema = z.object({
+  id: z.string(),
+  network: z.string(),
+  previous_policy_id: z.string(),
+  new_policy_id: z.string(),
+  // The policy record created for the new policy ID, empty while the change is rejected
+  policy: z.string(),
+  transaction_id: z.string(),
+  output_index: z.number(),
+  slot: z.number(),
+  block_hash: z.string(),
+  status: z.enum(['accepted', 'rejected']),
+  rejection_reason: z.string(),
+  detected_at: z.coerce.date()
+});
+
 // Active Feeds Schemas - Used for fetching active feeds from GitHub cer-feeds.json
 // Schema for the full list of active feeds
 export type ActiveFeeds = z.infer<typeof ActiveFeedsSchema>;
@@ -164,7 +333,9 @@ export const ActiveFeedsSchema = z.object({
 export type KupoDatum = z.infer<typeof KupoDatumSchema>;
 export type KupoMatch = z.infer<typeof KupoMatchSchema>;
 export type KupoMatches = z.infer<typeof KupoMatchesSchema>;
+export type KupoCheckpoint = z.infer<typeof KupoCheckpointSchema>;
 export type KupoErrorResponse = z.infer<typeof KupoErrorResponseSchema>;
+export type KupoExchange = z.infer<typeof KupoExchangeSchema>;
 export type CurrencyPairDatum = z.infer<typeof CurrencyPairDatumSchema>;
 export type KupoDatumResponse = z.infer<typeof KupoDatumResponseSchema>;
 export type KupoRequestOptions = z.infer<typeof KupoRequestOptionsSchema>;
@@ -177,6 +348,23 @@ export const KupoErrorResponseSchema = z.object({
   hint: z.string()
 });
 
+// A recorded request/response pair, used by the Kupo stand-in to replay chain index responses offline
+export const KupoExchangeSchema = z.object({
+  path: z.string(),
+  if_none_match: z.string().nullable(),
+  status: z.number(),
+  headers: z.object({
+    etag: z.string().nullable(),
+    'x-most-recent-checkpoint': z.string().nullable()
+  }),
+  body: z.unknown()
+});
+
+export const KupoCheckpointSchema = z.object({
+  slot_no: z.number(),
+  header_hash: z.string()
+});
+
 export const KupoMatchSchema = z.object({
   transaction_index: z.number(),
   transaction_id: z.string(),
@@ -211,6 +399,28 @@ export const KupoMatchesResponseSchema = z.object({
   transactions: KupoMatchesByTransactionSchema
 });
 
+export interface KupoMatchesStream {
+  lastBlockHash: string;
+  lastCheckpointSlot: number;
+  batches: AsyncGenerator<KupoMatchesByTransaction>;
+}
+
+// Read access to a chain index, implemented per backend (see chain-index.ts)
+export interface ChainIndexProvider {
+  // List the fact statement matches minted by a policy, optionally within a slot range
+  getMatches(policy: Policy, options: KupoRequestOptions): Promise<KupoMatchesResponse | null>;
+  // Same as getMatches but yields batches of whole blocks as they are received
+  streamMatches(policy: Policy, options: KupoRequestOptions): Promise<KupoMatchesStream | null>;
+  // List the UTxOs holding the network's Fact Statement Pointer token
+  getPointerMatches(options: { unspent: boolean; order: 'oldest_first' | 'most_recent_first' }): Promise<KupoMatch[]>;
+  // Resolve a datum hash to its serialized CBOR datum
+  getDatum(datumHash: string): Promise<string | null>;
+  getTransactionMetadata(transactionId: string, slot: number): Promise<KupoMetadataResponse | null>;
+  // Get the checkpoint at exactly the given slot, or null if there is no block at that slot
+  getCheckpoint(slot: number): Promise<KupoCheckpoint | null>;
+  getTip(): Promise<KupoCheckpoint>;
+}
+
 export const KupoRequestOptionsSchema = z.object({
   lastBlockHash: z
     .string()
@@ -346,6 +556,7 @@ export type TagFilters = z.infer<typeof TagFiltersSchema>;
 export type ArweaveEdge = z.infer<typeof ArweaveEdgeSchema>;
 export type ArchiveData = z.infer<typeof ArchiveDataSchema>;
 export type ValidationFile = z.infer<typeof ValidationFileSchema>;
+export type BagInfo = z.infer<typeof BagInfoSchema>;
 export type ArweaveResponse = z.infer<typeof ArweaveResponseSchema>;
 export type DEXValidationFile = z.infer<typeof DEXValidationFileSchema>;
 export type FactSourceMessage = z.infer<typeof FactSourceMessageSchema>;
@@ -354,13 +565,45 @@ export type ArweaveTransaction = z.infer<typeof ArweaveTransactionSchema>;
 export type ArweavePageResponse = z.infer<typeof ArweavePageResponseSchema>;
 export type ArweaveTransactionsResponse = z.infer<typeof ArweaveTransactionsResponseSchema>;
 
+export type ChecksumAlgorithm = 'md5' | 'sha1' | 'sha256' | 'sha512';
+
 export interface ArchivedFile {
   name: string;
   fileName: string;
   extension: string;
-  content: string | object;
+  // Parsed JSON or text. Null for binary entries, which aren't read into memory, and entries that couldn't be parsed
+  content: string | object | null;
+  // Size and digests of the raw entry, computed while extracting, used to verify the bag
+  size: number;
+  checksums: Record<ChecksumAlgorithm, string>;
 }
 
+// A text entry that was extracted without its content
+export interface ArchiveFileError {
+  name: string;
+  reason: 'too_large' | 'invalid_json';
+  message: string;
+}
+
+export type ArchiveFetchResult =
+  | { files: ArchivedFile[]; fileErrors: ArchiveFileError[]; endpoint: string }
+  // verificationError is set when a fetched archive failed bag verification
+  | { files: null; endpoint: string; error: string; verificationError?: string };
+
+export interface ArweaveGatewayHealth {
+  endpoint: string;
+  success_count: number;
+  failure_count: number;
+  consecutive_failures: number;
+  // Moving average of successful request latencies
+  average_latency_ms: number;
+  recent_errors: { at: Date; message: string }[];
+  // Set while the gateway is ejected after repeated failures
+  ejected_until: Date | null;
+}
+
+export type BagVerificationResult = { isValid: true } | { isValid: false; reason: string };
+
 const TagSchema = z.object({
   name: z.enum([
     'System Identifier',
@@ -386,7 +629,8 @@ export const ArweaveEdgeSchema = z.object({
   cursor: z.string(),
   node: z.object({
     id: z.string(),
-    tags: z.array(TagSchema)
+    // Gateways return every tag of a transaction, only the tags we know are kept
+    tags: z.array(z.unknown()).transform((tags) => tags.flatMap((tag) => TagSchema.safeParse(tag).data ?? []))
   })
 });
 
@@ -610,3 +854,108 @@ export type XerberusBulkRiskRating = {
   xSignature: string;
   endpoint: string;
 };
+
+// Index Status Types
+export interface NetworkSyncStatus {
+  is_syncing: boolean;
+  last_sync_started_at: Date | null;
+  last_successful_sync_at: Date | null;
+  last_failed_sync_at: Date | null;
+  last_sync_error: string | null;
+}
+
+// Index Audit Types
+// Chain index matches and indexed facts of a policy on a day of the audited range
+export interface IndexAuditDay {
+  day: Date;
+  policy_id: string;
+  on_chain_count: number;
+  indexed_count: number;
+}
+
+export interface IndexAuditReport {
+  network: string;
+  from_slot: number;
+  to_slot: number;
+  days: IndexAuditDay[];
+  // Matches on the chain index without a fact
+  missing: { transaction_id: string; output_index: number; slot: number; policy_id: string }[];
+  // Facts without a match on the chain index
+  extra: { fact_urn: string; transaction_id: string; output_index: number; slot: number }[];
+  // Facts whose block, slot or policy differs from their match
+  mismatched: { fact_urn: string; transaction_id: string; output_index: number; fields: string[] }[];
+  // Missing transactions that were re-indexed
+  reindexed_transactions: number;
+}
+
+// Storage Types
+export type StorageBackend = z.infer<typeof StorageBackendSchema>;
+
+export const StorageBackendSchema = z.enum(['pocketbase', 'sqlite']);
+
+export type FilterValue = string | number | boolean | Date | null;
+
+// A bare value matches by equality
+export type FieldCondition =
+  | FilterValue
+  | {
+      eq?: FilterValue;
+      ne?: FilterValue;
+      gt?: FilterValue;
+      gte?: FilterValue;
+      lt?: FilterValue;
+      lte?: FilterValue;
+      in?: FilterValue[];
+    };
+
+// Conditions on several fields are combined with AND
+export type RecordFilter<T> = { [K in keyof T]?: FieldCondition };
+
+// Field to sort by, prefixed with '-' for descending order
+export type SortField<T> = Extract<keyof T, string> | `-${Extract<keyof T, string>}`;
+
+export interface FindOptions<T> {
+  filter?: RecordFilter<T>;
+  sort?: SortField<T>;
+  limit?: number;
+}
+
+export type RecordInput<T> = Partial<Omit<T, 'id'>>;
+
+export interface UpsertResult<T> {
+  inserted: T[];
+  updated: T[];
+  failed: { record: RecordInput<T>; error: unknown }[];
+}
+
+// Typed access to a single collection, implemented per storage backend (see storage/)
+export interface Repository<T extends { id: string }> {
+  getById(id: string): Promise<T | null>;
+  findFirst(options?: FindOptions<T>): Promise<T | null>;
+  findAll(options?: FindOptions<T>): Promise<T[]>;
+  count(filter?: RecordFilter<T>): Promise<number>;
+  // Throws a DuplicateRecordError when a unique field is already taken
+  create(record: RecordInput<T>): Promise<T>;
+  update(id: string, changes: RecordInput<T>): Promise<T>;
+  // Insert records, or update the existing record with the same unique key, in batches. Failures are reported per record
+  upsertMany(records: RecordInput<T>[], key: Extract<keyof T, string>): Promise<UpsertResult<T>>;
+  delete(id: string): Promise<void>;
+}
+
+export interface Storage {
+  facts: Repository<FactStatement>;
+  feeds: Repository<Feed>;
+  policies: Repository<Policy>;
+  networks: Repository<DBNetwork>;
+  nodes: Repository<Node>;
+  sources: Repository<Source>;
+  assets: Repository<Asset>;
+  rollbacks: Repository<Rollback>;
+  jobStates: Repository<JobState>;
+  bagInfos: Repository<FactBagInfo>;
+  discrepancies: Repository<Discrepancy>;
+  sourceObservations: Repository<SourceObservation>;
+  sourceOutlierStats: Repository<SourceOutlierStats>;
+  archiveRetries: Repository<ArchiveRetry>;
+  fspChanges: Repository<FSPChange>;
+}
@@ -0,0 +1,31 @@
+import {
+  ArchivedFile,
+  CEXValidationFile,
+  CEXValidationFileSchema,
+  DEXValidationFile,
+  DEXValidationFileSchema
+} from './types.js';
+
+export type ParsedValidationFile =
+  | { type: 'CEX'; fileName: string; contents: CEXValidationFile }
+  | { type: 'DEX'; fileName: string; contents: DEXValidationFile };
+
+// Detect whether an archive's validation file is a CEX median or a DEX volume weighted average and parse it
+export function parseValidationFile(files: ArchivedFile[]): ParsedValidationFile | null {
+  const validationFile = files.find((file) => file.fileName.includes('validation-'));
+  if (!validationFile) return null;
+
+  const cex = CEXValidationFileSchema.safeParse(validationFile.content);
+  if (cex.success) return { type: 'CEX', fileName: validationFile.fileName, contents: cex.data };
+
+  const dex = DEXValidationFileSchema.safeParse(validationFile.content);
+  if (dex.success) return { type: 'DEX', fileName: validationFile.fileName, contents: dex.data };
+
+  return null;
+}
+
+// The value published on chain: the median for CEX feeds, the volume weighted average for DEX feeds
+export function getValidationFileValue(validationFile: ParsedValidationFile): number {
+  if (validationFile.type === 'CEX') return validationFile.contents.additionalType[1].about.variableMeasured.value;
+  return validationFile.contents.additionalType[1].about.value;
+}
@@ -1,11 +1,6 @@
 import { XerberusBulkRiskRating, XerberusBulkRiskRatingAPIResponseSchema } from './types.js';
 import { logError } from './logger.js';
-import { getAllAssets } from '../db.js';
-import PocketBase from 'pocketbase';
-
-// Setup DB connection
-const db = new PocketBase(process.env.DB_HOST);
-await db.collection('_superusers').authWithPassword(process.env.DB_EMAIL, process.env.DB_PASSWORD);
+import { getAllAssets, updateAsset } from '../db.js';
 
 // Get supported assets from Xerberus API
 export async function getXerberusSupportedAssets(): Promise<string[]> {
@@ -44,14 +39,8 @@ export async function updateXerberusRiskRatingSupport(): Promise<void> {
 
       // Only update if the support status has changed
       if (asset.hasXerberusRiskRating !== isSupported) {
-        try {
-          await db.collection('assets').update(asset.id, {
-            hasXerberusRiskRating: isSupported
-          });
-          updatedCount++;
-        } catch (error) {
-          logError(`Failed to update Xerberus support status for asset ${asset.ticker}`, error);
-        }
+        const updatedAsset = await updateAsset({ id: asset.id, hasXerberusRiskRating: isSupported });
+        if (updatedAsset) updatedCount++;
       }
     }
 
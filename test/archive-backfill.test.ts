@@ -0,0 +1,54 @@
+import './env.js';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { after, before, describe, test } from 'node:test';
+import { getJobState, indexFactStatements } from '../src/db.js';
+import { backfillArchives } from '../src/util/archive-backfill.js';
+import { Network } from '../src/util/types.js';
+import { createTestNetwork, getTestFact, startServer } from './helpers.js';
+
+// Facts on days 2, 10 and 11 of the network, whose archives the gateway can't find
+describe('backfilling archives', () => {
+  const requested: string[] = [];
+  let gateway: Awaited<ReturnType<typeof startServer>>;
+  let network: Network;
+
+  const getFact = (id: string, day: number) =>
+    getTestFact(network, id, day * 86400, { storage_urn: `urn:arweave:tx-${id}` });
+
+  before(async () => {
+    gateway = await startServer(
+      express().get('/:transactionId', (req, res) => {
+        requested.push(req.params.transactionId);
+        res.status(404).end();
+      })
+    );
+    process.env.ARCHIVE_BACKFILL_BATCH_DELAY_MS = '1';
+    network = await createTestNetwork({ primary_arweave_endpoint: gateway.url });
+    await indexFactStatements(network, [getFact('A', 1), getFact('B', 9), getFact('C', 10)]);
+  });
+
+  after(async () => {
+    await gateway.close();
+  });
+
+  test('walks the unarchived facts oldest first up to the retry window', async () => {
+    await backfillArchives(network);
+
+    assert.deepEqual(requested, ['tx-A', 'tx-B', 'tx-C']);
+    const jobState = await getJobState('archive_backfill', network);
+    assert.equal(jobState?.status, 'idle');
+    assert.deepEqual([jobState?.processed_count, jobState?.indexed_count, jobState?.failed_count], [3, 0, 3]);
+    assert.ok(jobState?.cursor_date && jobState.cursor_date > new Date(Date.now() - 7 * 60 * 60 * 1000));
+  });
+
+  test('resumes from the stored cursor', async () => {
+    // Facts published before the cursor aren't walked again
+    await indexFactStatements(network, [getFact('D', 5)]);
+
+    await backfillArchives(network);
+
+    assert.deepEqual(requested, ['tx-A', 'tx-B', 'tx-C']);
+    assert.equal((await getJobState('archive_backfill', network))?.processed_count, 3);
+  });
+});
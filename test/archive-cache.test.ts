@@ -0,0 +1,52 @@
+import { testDir } from './env.js';
+import assert from 'node:assert/strict';
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { before, describe, test } from 'node:test';
+import { setTimeout as sleep } from 'timers/promises';
+import { cacheArchive, getCachedArchivePath } from '../src/util/archive-cache.js';
+
+const transactionId = (name: string) => name.padEnd(43, '0');
+
+describe('caching archives', () => {
+  const cacheDir = join(testDir, 'archives');
+
+  before(() => {
+    process.env.ARCHIVE_CACHE_DIR = cacheDir;
+    // Room for two 500 byte tarballs
+    process.env.ARCHIVE_CACHE_MAX_MB = String(1200 / 1024 / 1024);
+  });
+
+  test('evicts the least recently used tarballs once the cache is full', async () => {
+    await cacheArchive(transactionId('a'), Buffer.alloc(500, 'a'));
+    await sleep(10);
+    await cacheArchive(transactionId('b'), Buffer.alloc(500, 'b'));
+    await sleep(10);
+    assert.deepEqual(await readFile((await getCachedArchivePath(transactionId('a')))!), Buffer.alloc(500, 'a'));
+    await sleep(10);
+
+    await cacheArchive(transactionId('c'), Buffer.alloc(500, 'c'));
+
+    assert.deepEqual((await readdir(cacheDir)).sort(), [
+      `${transactionId('a')}.tar.gz`,
+      `${transactionId('c')}.tar.gz`
+    ]);
+    assert.equal(await getCachedArchivePath(transactionId('b')), null);
+  });
+
+  test("doesn't cache a tarball under an id that isn't a transaction id", async () => {
+    await cacheArchive('../outside', Buffer.alloc(10));
+
+    assert.equal(await getCachedArchivePath('../outside'), null);
+    assert.equal((await readdir(cacheDir)).length, 2);
+  });
+
+  test('counts a rewritten tarball once', async () => {
+    await cacheArchive(transactionId('c'), Buffer.alloc(500, 'c'));
+
+    assert.deepEqual((await readdir(cacheDir)).sort(), [
+      `${transactionId('a')}.tar.gz`,
+      `${transactionId('c')}.tar.gz`
+    ]);
+  });
+});
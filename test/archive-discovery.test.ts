@@ -0,0 +1,96 @@
+import './env.js';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { after, before, describe, mock, test } from 'node:test';
+import { getAllFactStatements, indexFactStatements } from '../src/db.js';
+import { discoverArchives } from '../src/util/archive-discovery.js';
+import { Network } from '../src/util/types.js';
+import { FIXTURE_ZERO_TIME, createTestNetwork, getTestFact, startServer } from './helpers.js';
+
+function getEdge(transactionId: string, factUrn: string) {
+  return {
+    cursor: transactionId,
+    node: {
+      id: transactionId,
+      tags: [
+        { name: 'System Identifier', value: 'orcfax-preview' },
+        { name: 'Fact Datum URN', value: factUrn },
+        { name: 'Unknown Tag', value: '' }
+      ]
+    }
+  };
+}
+
+describe('discovering archives on Arweave', () => {
+  // A rate limited response first, then two pages of transactions, newest first
+  const responses = [
+    null,
+    {
+      transactions: {
+        pageInfo: { hasNextPage: true },
+        edges: [getEdge('tx-A2', 'urn:orcfax:fact-A'), getEdge('tx-A1', 'urn:orcfax:fact-A')]
+      }
+    },
+    { transactions: { pageInfo: { hasNextPage: false }, edges: [getEdge('tx-B', 'urn:orcfax:fact-B')] } }
+  ];
+  const requests: { variables: Record<string, unknown> }[] = [];
+  let gateway: Awaited<ReturnType<typeof startServer>>;
+  let network: Network;
+
+  before(async () => {
+    process.env.ARWEAVE_RATE_LIMIT_BACKOFF_MS = '1';
+    // Fact A was validated exactly ARCHIVE_DISCOVERY_MAX_AGE_DAYS ago
+    process.env.ARCHIVE_DISCOVERY_MAX_AGE_DAYS = '7';
+    mock.timers.enable({ apis: ['Date'], now: FIXTURE_ZERO_TIME + (100000 + 7 * 86400) * 1000 });
+    gateway = await startServer(
+      express()
+        .use(express.json())
+        .post('/graphql', (req, res) => {
+          const data = responses[requests.length];
+          requests.push(req.body);
+          if (data === null) res.status(429).end();
+          else res.json({ data });
+        })
+    );
+    network = await createTestNetwork({
+      arweave_system_identifier: 'orcfax-preview',
+      arweave_wallet_address: 'wallet',
+      primary_arweave_endpoint: gateway.url
+    });
+    await indexFactStatements(network, [
+      getTestFact(network, 'fact-A', 100000),
+      getTestFact(network, 'fact-B', 100100),
+      getTestFact(network, 'fact-C', 100200),
+      getTestFact(network, 'fact-old', 99000)
+    ]);
+  });
+
+  after(async () => {
+    delete process.env.ARWEAVE_RATE_LIMIT_BACKOFF_MS;
+    mock.timers.reset();
+    await gateway.close();
+  });
+
+  test('stores the newest archive tagged with the URN of each fact', async () => {
+    await discoverArchives(network);
+
+    const facts = await getAllFactStatements(network);
+    assert.deepEqual(facts.map((fact) => [fact.fact_urn, fact.storage_urn]).sort(), [
+      ['urn:orcfax:fact-A', 'urn:arweave:tx-A2'],
+      ['urn:orcfax:fact-B', 'urn:arweave:tx-B'],
+      ['urn:orcfax:fact-C', ''],
+      ['urn:orcfax:fact-old', '']
+    ]);
+  });
+
+  test("only searches the network's wallet for recent facts, resuming after a rate limit", async () => {
+    assert.equal(requests.length, 3);
+    assert.deepEqual(requests[1].variables, requests[0].variables);
+    assert.deepEqual(requests[0].variables.owners, ['wallet']);
+    assert.deepEqual(requests[0].variables.tags, [
+      { name: 'System Identifier', values: ['orcfax-preview'] },
+      { name: 'Fact Datum URN', values: ['urn:orcfax:fact-C', 'urn:orcfax:fact-B', 'urn:orcfax:fact-A'] }
+    ]);
+    assert.equal(requests[2].variables.after, 'tx-A1');
+  });
+});
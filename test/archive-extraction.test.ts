@@ -0,0 +1,76 @@
+import './env.js';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { afterEach, describe, test } from 'node:test';
+import { Readable } from 'stream';
+import * as tar from 'tar-stream';
+import { gzipSync } from 'zlib';
+import { ArchiveTooLargeError, extractArchive } from '../src/util/archive-extraction.js';
+
+async function packArchive(entries: Record<string, string | Buffer>) {
+  const pack = tar.pack();
+  for (const [name, content] of Object.entries(entries)) pack.entry({ name: `fact-A/${name}` }, content);
+  pack.finalize();
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of pack) chunks.push(chunk);
+  return gzipSync(Buffer.concat(chunks));
+}
+
+describe('extracting archives', () => {
+  afterEach(() => {
+    process.env.ARCHIVE_MAX_SIZE_MB = '';
+    process.env.ARCHIVE_MAX_ENTRY_SIZE_MB = '';
+  });
+
+  test('parses text entries and only hashes the others', async () => {
+    const image = Buffer.alloc(64, 1);
+    const tarball = await packArchive({ 'data/validation.json': '{"value":0.5}', 'data/chart.png': image });
+    const chunks: Buffer[] = [];
+
+    const { files, fileErrors } = await extractArchive(Readable.from([tarball]), {
+      onChunk: (chunk) => chunks.push(chunk)
+    });
+
+    assert.deepEqual(
+      files.map((file) => [file.name, file.fileName, file.extension, file.content, file.size]),
+      [
+        ['fact-A/data/validation.json', 'validation.json', 'JSON', { value: 0.5 }, 13],
+        ['fact-A/data/chart.png', 'chart.png', 'PNG', null, 64]
+      ]
+    );
+    assert.equal(files[1].checksums.sha256, createHash('sha256').update(image).digest('hex'));
+    assert.deepEqual(fileErrors, []);
+    assert.deepEqual(Buffer.concat(chunks), tarball);
+  });
+
+  test('keeps the entries it cannot parse without their content', async () => {
+    process.env.ARCHIVE_MAX_ENTRY_SIZE_MB = String(100 / 1024 / 1024);
+    const tarball = await packArchive({ 'data/broken.json': '{"value":', 'data/large.txt': 'a'.repeat(200) });
+
+    const { files, fileErrors } = await extractArchive(Readable.from([tarball]));
+
+    assert.deepEqual(
+      files.map((file) => [file.fileName, file.content, file.size]),
+      [
+        ['broken.json', null, 9],
+        ['large.txt', null, 200]
+      ]
+    );
+    assert.deepEqual(
+      fileErrors.map((error) => [error.name, error.reason]),
+      [
+        ['fact-A/data/broken.json', 'invalid_json'],
+        ['fact-A/data/large.txt', 'too_large']
+      ]
+    );
+  });
+
+  test('rejects an archive that extracts to more than ARCHIVE_MAX_SIZE_MB', async () => {
+    process.env.ARCHIVE_MAX_SIZE_MB = String(4096 / 1024 / 1024);
+    // Compresses to far less than the limit
+    const tarball = await packArchive({ 'data/padding.txt': 'a'.repeat(8192) });
+
+    await assert.rejects(extractArchive(Readable.from([tarball])), ArchiveTooLargeError);
+  });
+});
@@ -0,0 +1,209 @@
+import './env.js';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { fetchArchive } from '../src/util/archives.js';
+import {
+  ArchiveNotFoundError,
+  getArweaveGatewayHealth,
+  getArweaveGateways,
+  withArweaveGateway
+} from '../src/util/arweave-gateways.js';
+import { Network } from '../src/util/types.js';
+import { createTestNetwork, getTestNetwork, startServer } from './helpers.js';
+
+const PRIMARY = 'http://primary.gateway.test';
+const SECONDARY = 'http://secondary.gateway.test';
+
+describe('choosing the Arweave gateways of a network', () => {
+  before(() => {
+    process.env.PRIMARY_ARWEAVE_ENDPOINT = 'http://primary.env.test';
+    process.env.SECONDARY_ARWEAVE_ENDPOINT = 'http://secondary.env.test';
+  });
+
+  after(() => {
+    process.env.PRIMARY_ARWEAVE_ENDPOINT = '';
+    process.env.SECONDARY_ARWEAVE_ENDPOINT = '';
+    process.env.ARWEAVE_GATEWAYS = '';
+  });
+
+  test("puts the network's gateways before the env vars, once each", () => {
+    const network = getTestNetwork({
+      primary_arweave_endpoint: 'http://primary.network.test/',
+      secondary_arweave_endpoint: 'http://primary.env.test'
+    });
+
+    assert.deepEqual(getArweaveGateways(network), [
+      'http://primary.network.test',
+      'http://primary.env.test',
+      'http://secondary.env.test'
+    ]);
+  });
+
+  test('prefers ARWEAVE_GATEWAYS to the primary and secondary env vars', () => {
+    process.env.ARWEAVE_GATEWAYS = 'http://first.env.test, http://second.env.test';
+
+    assert.deepEqual(getArweaveGateways(getTestNetwork({})), ['http://first.env.test', 'http://second.env.test']);
+  });
+});
+
+describe('routing requests through Arweave gateways', () => {
+  let network: Network;
+  let requested: string[] = [];
+  const succeed = async (endpoint: string) => {
+    requested.push(endpoint);
+    return endpoint;
+  };
+  const fail = async (endpoint: string) => {
+    requested.push(endpoint);
+    throw new Error(`HTTP 502 from ${endpoint}`);
+  };
+  const getHealth = (endpoint: string) => getArweaveGatewayHealth().find((health) => health.endpoint === endpoint);
+
+  before(async () => {
+    process.env.ARWEAVE_GATEWAY_MAX_FAILURES = '3';
+    network = await createTestNetwork({ primary_arweave_endpoint: PRIMARY, secondary_arweave_endpoint: SECONDARY });
+  });
+
+  beforeEach(() => {
+    requested = [];
+  });
+
+  test('falls back to the next gateway when one fails', async () => {
+    const { result, endpoint } = await withArweaveGateway(network, (endpoint) =>
+      endpoint === PRIMARY ? fail(endpoint) : succeed(endpoint)
+    );
+
+    assert.equal(result, SECONDARY);
+    assert.equal(endpoint, SECONDARY);
+    assert.deepEqual(requested, [PRIMARY, SECONDARY]);
+    assert.equal(getHealth(PRIMARY)?.failure_count, 1);
+    assert.equal(getHealth(SECONDARY)?.success_count, 1);
+  });
+
+  test('tries the gateway with the best record first', async () => {
+    await withArweaveGateway(network, succeed);
+
+    assert.deepEqual(requested, [SECONDARY]);
+  });
+
+  test("doesn't count a missing archive against a gateway", async () => {
+    await assert.rejects(
+      withArweaveGateway(network, async (endpoint) => {
+        requested.push(endpoint);
+        throw new ArchiveNotFoundError(endpoint);
+      }),
+      ArchiveNotFoundError
+    );
+
+    assert.deepEqual(requested, [SECONDARY, PRIMARY]);
+    assert.equal(getHealth(SECONDARY)?.failure_count, 0);
+    assert.equal(getHealth(PRIMARY)?.failure_count, 1);
+  });
+
+  test('ejects a gateway after ARWEAVE_GATEWAY_MAX_FAILURES failures in a row', async () => {
+    const only = { ...network, secondary_arweave_endpoint: '' };
+    for (let i = 0; i < 2; i++) await assert.rejects(withArweaveGateway(only, fail));
+
+    const health = getHealth(PRIMARY);
+    assert.equal(health?.consecutive_failures, 3);
+    assert.ok(health?.ejected_until && health.ejected_until > new Date());
+    assert.equal(health?.recent_errors[0].message, `HTTP 502 from ${PRIMARY}`);
+  });
+});
+
+// Gateways of their own, as the health of a gateway is kept for the whole process
+describe('skipping ejected Arweave gateways', () => {
+  const PRIMARY = 'http://ejected-primary.gateway.test';
+  const SECONDARY = 'http://ejected-secondary.gateway.test';
+  let network: Network;
+  let requested: string[] = [];
+  const only = (endpoint: string) => ({
+    ...network,
+    primary_arweave_endpoint: endpoint,
+    secondary_arweave_endpoint: ''
+  });
+  const succeed = async (endpoint: string) => {
+    requested.push(endpoint);
+    return endpoint;
+  };
+  const fail = async (endpoint: string) => {
+    requested.push(endpoint);
+    throw new Error(`HTTP 502 from ${endpoint}`);
+  };
+
+  before(async () => {
+    process.env.ARWEAVE_GATEWAY_MAX_FAILURES = '2';
+    network = getTestNetwork({ primary_arweave_endpoint: PRIMARY, secondary_arweave_endpoint: SECONDARY });
+
+    // The primary scores higher than the secondary even after the failures that eject it
+    for (let i = 0; i < 3; i++) await withArweaveGateway(only(PRIMARY), succeed);
+    await assert.rejects(withArweaveGateway(only(SECONDARY), fail));
+    for (let i = 0; i < 2; i++) await assert.rejects(withArweaveGateway(only(PRIMARY), fail));
+  });
+
+  test('skips an ejected gateway even when the other gateways fail', async () => {
+    requested = [];
+    await assert.rejects(withArweaveGateway(network, fail));
+
+    assert.deepEqual(requested, [SECONDARY]);
+  });
+
+  test('tries ejected gateways in the order they are restored when every gateway is ejected', async () => {
+    // The secondary was ejected by its second failure in a row
+    requested = [];
+    const { endpoint } = await withArweaveGateway(network, succeed);
+
+    assert.equal(endpoint, PRIMARY);
+    assert.deepEqual(requested, [PRIMARY]);
+  });
+});
+
+// Gateways that accept the request and never finish answering it
+describe('timing out stalled Arweave gateways', () => {
+  let silent: Awaited<ReturnType<typeof startServer>>;
+  let stalled: Awaited<ReturnType<typeof startServer>>;
+  const getHealth = (endpoint: string) => getArweaveGatewayHealth().find((health) => health.endpoint === endpoint);
+
+  before(async () => {
+    process.env.ARWEAVE_FETCH_TIMEOUT_MS = '200';
+    process.env.ARWEAVE_GATEWAY_MAX_FAILURES = '1';
+    silent = await startServer(express().get('/:transactionId', () => {}));
+    // Sends the headers and the first bytes of the tarball, then nothing more
+    stalled = await startServer(
+      express().get('/:transactionId', (_req, res) => {
+        res.set('content-type', 'application/gzip');
+        res.write(Buffer.from([0x1f, 0x8b]));
+      })
+    );
+  });
+
+  after(async () => {
+    process.env.ARWEAVE_FETCH_TIMEOUT_MS = '';
+    await Promise.all([silent.close(), stalled.close()]);
+  });
+
+  test('fails and ejects a gateway that never responds', async () => {
+    const network = getTestNetwork({ primary_arweave_endpoint: silent.url });
+
+    await assert.rejects(
+      withArweaveGateway(network, (endpoint) => fetchArchive(endpoint, 'tx')),
+      new RegExp(`^Error: Timed out after 200ms fetching from ${silent.url}$`)
+    );
+
+    const health = getHealth(silent.url);
+    assert.equal(health?.failure_count, 1);
+    assert.ok(health?.ejected_until && health.ejected_until > new Date());
+  });
+
+  test('fails a gateway that stops sending an archive part way', async () => {
+    const network = getTestNetwork({ primary_arweave_endpoint: stalled.url });
+
+    await assert.rejects(
+      withArweaveGateway(network, (endpoint) => fetchArchive(endpoint, 'tx')),
+      /^Error: Timed out/
+    );
+
+    assert.equal(getHealth(stalled.url)?.failure_count, 1);
+  });
+});
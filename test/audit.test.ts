@@ -0,0 +1,72 @@
+import './env.js';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { after, before, describe, test } from 'node:test';
+import { auditIndex } from '../src/audit.js';
+import { indexFactStatements } from '../src/db.js';
+import { KupoMatch, Network } from '../src/util/types.js';
+import { FIXTURE_POLICY_ID, createTestNetwork, getTestFact, startServer } from './helpers.js';
+
+function getMatch(id: string, slot: number, blockHash = `block-${slot}`): KupoMatch {
+  return {
+    transaction_index: 0,
+    transaction_id: `tx-${id}`,
+    output_index: 0,
+    address: 'addr_test',
+    value: { coins: 2000000, assets: { [`${FIXTURE_POLICY_ID}.4346`]: 1 } },
+    datum_hash: null,
+    datum_type: 'inline',
+    script_hash: null,
+    created_at: { slot_no: slot, header_hash: blockHash },
+    spent_at: null
+  };
+}
+
+// On chain, fact A is indexed as is, fact B was indexed from a block that has since been replaced and fact M was
+// never indexed. Fact E is indexed without being on chain.
+describe('auditing the index against the chain index', () => {
+  const matches = [getMatch('A', 100000), getMatch('B', 110000, 'block-fork'), getMatch('M', 120000)];
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let network: Network;
+
+  before(async () => {
+    server = await startServer(
+      express().get('/matches/*', (req, res) => {
+        const [after, before] = [Number(req.query.created_after), Number(req.query.created_before)];
+        res.set({ etag: 'tip', 'x-most-recent-checkpoint': '216000' });
+        res.json(matches.filter((match) => match.created_at.slot_no > after && match.created_at.slot_no <= before));
+      })
+    );
+    network = await createTestNetwork({ chain_index_base_url: server.url });
+    await indexFactStatements(network, [
+      getTestFact(network, 'A', 100000),
+      getTestFact(network, 'B', 110000),
+      getTestFact(network, 'E', 130000)
+    ]);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  test('reports the missing, extra and mismatched facts of each day', async () => {
+    const report = await auditIndex(network, { fromSlot: 86400, toSlot: 216000 });
+
+    assert.deepEqual(
+      report.days.map((day) => [day.day.toISOString(), day.on_chain_count, day.indexed_count]),
+      [
+        ['2024-01-02T00:00:00.000Z', 3, 2],
+        ['2024-01-03T00:00:00.000Z', 0, 0]
+      ]
+    );
+    assert.deepEqual(report.missing, [
+      { transaction_id: 'tx-M', output_index: 0, slot: 120000, policy_id: FIXTURE_POLICY_ID }
+    ]);
+    assert.deepEqual(report.extra, [
+      { fact_urn: 'urn:orcfax:E', transaction_id: 'tx-E', output_index: 0, slot: 130000 }
+    ]);
+    assert.deepEqual(report.mismatched, [
+      { fact_urn: 'urn:orcfax:B', transaction_id: 'tx-B', output_index: 0, fields: ['block_hash'] }
+    ]);
+  });
+});
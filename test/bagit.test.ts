@@ -0,0 +1,147 @@
+import './env.js';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import express from 'express';
+import { after, before, describe, test } from 'node:test';
+import { Readable } from 'stream';
+import * as tar from 'tar-stream';
+import { gzipSync } from 'zlib';
+import { extractArchive } from '../src/util/archive-extraction.js';
+import { getArchiveFiles } from '../src/util/archives.js';
+import { verifyBag } from '../src/util/bagit.js';
+import { Network } from '../src/util/types.js';
+import { createTestNetwork, startServer } from './helpers.js';
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+const NODE_DATA = ['2024-01-02T00:00:00Z', ['0.5', '0.51', '0.49'], 'node-uuid'];
+
+function getValidationFile(contentSignature: string) {
+  return {
+    '@context': 'https://schema.org',
+    type: 'MediaObject',
+    identifier: 'urn:orcfax:fact-A',
+    isBasedOn: { '@type': 'MediaObject', name: 'ADA-USD', identifier: 'urn:orcfax:node:1' },
+    contributor: {
+      '@type': 'Organization',
+      name: 'Test node',
+      locationCreated: {
+        address: { '@type': 'PostalAddress', addressLocality: 'Helsinki', addressRegion: 'FI', geo: '60.17,24.94' }
+      }
+    },
+    additionalType: [
+      {
+        '@type': 'Event',
+        description: 'data collection',
+        startDate: '2024-01-02T00:00:00Z',
+        recordedIn: {
+          '@type': 'CreativeWork',
+          description: { '@type': 'TextObject', comment: 'node data', sha256: contentSignature },
+          hasPart: [
+            { '@type': 'CreativeWork', description: 'collecting timestamp', text: NODE_DATA[0] },
+            { '@type': 'CreativeWork', description: 'data points for ADA-USD', text: NODE_DATA[1] },
+            { '@type': 'CreativeWork', description: 'node identifier (uuid)', text: NODE_DATA[2] }
+          ]
+        }
+      },
+      {}
+    ]
+  };
+}
+
+// Pack a bag the way the collector does: payload under data/, with Payload-Oxum and sha256 payload and tag manifests,
+// and the node data signed in the validation file. Tampering with the payload after the manifests are written breaks
+// the bag
+async function packBag(options: { contentSignature?: string; tamper?: boolean } = {}) {
+  const payload: Record<string, string> = {
+    'data/validation-ADA-USD-2024-01-02T00:00:00Z.json': JSON.stringify(
+      getValidationFile(options.contentSignature ?? sha256(JSON.stringify(NODE_DATA)))
+    ),
+    'data/message-binance-2024-01-02T00:00:00Z.json': JSON.stringify({ price: 0.5 })
+  };
+  const payloadBytes = Object.values(payload).reduce((total, content) => total + Buffer.byteLength(content), 0);
+  const tags: Record<string, string> = {
+    'bagit.txt': 'BagIt-Version: 1.0\nTag-File-Character-Encoding: UTF-8\n',
+    'bag-info.txt': `Payload-Oxum: ${payloadBytes}.${Object.keys(payload).length}\n`,
+    'manifest-sha256.txt': Object.entries(payload)
+      .map(([path, content]) => `${sha256(content)}  ${path}\n`)
+      .join('')
+  };
+  tags['tagmanifest-sha256.txt'] = Object.entries(tags)
+    .map(([path, content]) => `${sha256(content)}  ${path}\n`)
+    .join('');
+  if (options.tamper) payload['data/message-binance-2024-01-02T00:00:00Z.json'] = JSON.stringify({ price: 0.7 });
+
+  const pack = tar.pack();
+  for (const [path, content] of Object.entries({ ...tags, ...payload }))
+    pack.entry({ name: `fact-A/${path}` }, content);
+  pack.finalize();
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of pack) chunks.push(chunk);
+  return gzipSync(Buffer.concat(chunks));
+}
+
+async function verifyPackedBag(tarball: Buffer) {
+  const { files } = await extractArchive(Readable.from([tarball]));
+  return verifyBag(files);
+}
+
+describe('verifying archived bags', () => {
+  test('accepts a bag whose manifests match its files', async () => {
+    assert.deepEqual(await verifyPackedBag(await packBag()), { isValid: true });
+  });
+
+  test('rejects a bag whose payload changed after it was bagged', async () => {
+    const result = await verifyPackedBag(await packBag({ tamper: true }));
+    assert.ok(!result.isValid);
+    assert.match(result.reason, /Payload-Oxum mismatch|checksum mismatch/);
+  });
+
+  test("rejects a content signature that doesn't match the node data", async () => {
+    const contentSignature = sha256(JSON.stringify(['2024-01-02T00:00:00Z', ['0.5', '0.51', '0.7'], 'node-uuid']));
+    const result = await verifyPackedBag(await packBag({ contentSignature }));
+
+    assert.deepEqual(result, {
+      isValid: false,
+      reason: `Content signature ${contentSignature} does not match the node data (${sha256(JSON.stringify(NODE_DATA))})`
+    });
+  });
+});
+
+describe('fetching archives that fail verification', () => {
+  const fact = { fact_urn: 'urn:orcfax:fact-A', storage_urn: `urn:arweave:${'a'.repeat(43)}` };
+  let gateways: Awaited<ReturnType<typeof startServer>>[];
+  let network: Network;
+
+  before(async () => {
+    const [goodBag, tamperedBag] = await Promise.all([packBag(), packBag({ tamper: true })]);
+    const serve = (tarball: Buffer) =>
+      express().get('/:transactionId', (_req, res) => {
+        res.type('application/gzip').send(tarball);
+      });
+
+    gateways = await Promise.all([startServer(serve(tamperedBag)), startServer(serve(goodBag))]);
+    network = await createTestNetwork({
+      primary_arweave_endpoint: gateways[0].url,
+      secondary_arweave_endpoint: gateways[1].url
+    });
+  });
+
+  after(async () => {
+    await Promise.all(gateways.map((gateway) => gateway.close()));
+  });
+
+  test('falls back to the next gateway for a valid bag', async () => {
+    const archive = await getArchiveFiles(network, fact);
+
+    assert.ok(archive.files);
+    assert.equal(archive.endpoint, gateways[1].url);
+  });
+
+  test('reports the verification error when no gateway serves a valid bag', async () => {
+    const archive = await getArchiveFiles({ ...network, secondary_arweave_endpoint: '' }, fact);
+
+    assert.ok(archive.files === null);
+    assert.match(archive.verificationError ?? '', /mismatch/);
+  });
+});
@@ -0,0 +1,74 @@
+import { testDir } from './env.js';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import sqlite from 'node-sqlite3-wasm';
+import { before, describe, test } from 'node:test';
+import { getAllFactStatements, indexFactStatements, updateFactStatement } from '../src/db.js';
+import { DuplicateRecordError } from '../src/storage/index.js';
+import { createSQLiteStorage } from '../src/storage/sqlite.js';
+import { Network } from '../src/util/types.js';
+import { createTestNetwork, getTestFact, getTestNetwork } from './helpers.js';
+
+describe('indexing fact statements', () => {
+  let network: Network;
+
+  before(async () => {
+    network = await createTestNetwork({});
+  });
+
+  test('inserts new facts and updates the ones with a known statement hash', async () => {
+    const first = await indexFactStatements(network, [
+      getTestFact(network, 'fact-A', 100000),
+      getTestFact(network, 'fact-B', 100100)
+    ]);
+    assert.equal(first.inserted.length, 2);
+
+    const second = await indexFactStatements(network, [
+      getTestFact(network, 'fact-B', 100200, { block_hash: 'moved' }),
+      getTestFact(network, 'fact-C', 100300)
+    ]);
+
+    assert.deepEqual(
+      second.inserted.map((fact) => fact.fact_urn),
+      ['urn:orcfax:fact-C']
+    );
+    assert.deepEqual(
+      second.updated.map((fact) => [fact.fact_urn, fact.slot, fact.block_hash]),
+      [['urn:orcfax:fact-B', 100200, 'moved']]
+    );
+    assert.equal((await getAllFactStatements(network)).length, 3);
+  });
+
+  test('keeps the fields indexed from the archive when a fact is indexed again', async () => {
+    const [fact] = (await indexFactStatements(network, [getTestFact(network, 'fact-D', 100400)])).inserted;
+    await updateFactStatement(fact.id, { content_signature: 'signature', is_archive_indexed: true });
+
+    const [updated] = (await indexFactStatements(network, [getTestFact(network, 'fact-D', 100400)])).updated;
+
+    assert.equal(updated.id, fact.id);
+    assert.equal(updated.content_signature, 'signature');
+    assert.equal(updated.is_archive_indexed, true);
+  });
+});
+
+describe('storing policies', () => {
+  test('keeps a policy ID unique within its network only, replacing the global index of existing databases', async () => {
+    // A database created while policy IDs were unique across networks
+    const path = join(testDir, 'policies.db');
+    const legacy = new sqlite.Database(path);
+    legacy.exec('CREATE TABLE policies (id TEXT PRIMARY KEY, data TEXT NOT NULL)');
+    legacy.exec("CREATE UNIQUE INDEX policies_policy_id ON policies (json_extract(data, '$.policy_id'))");
+    legacy.close();
+
+    const sqlitePath = process.env.SQLITE_PATH;
+    process.env.SQLITE_PATH = path;
+    const storage = await createSQLiteStorage();
+    process.env.SQLITE_PATH = sqlitePath;
+
+    const [policy] = getTestNetwork({}).policies;
+    await storage.policies.create({ ...policy, network: 'preview' });
+    await storage.policies.create({ ...policy, network: 'mainnet' });
+    await assert.rejects(storage.policies.create({ ...policy, network: 'preview' }), DuplicateRecordError);
+    assert.equal((await storage.policies.findAll()).length, 2);
+  });
+});
@@ -0,0 +1,14 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Tests run against a throwaway SQLite index, without Discord alerts. Import this before any src module, since the
+// logger and the storage read their environment on load
+export const testDir = mkdtempSync(join(tmpdir(), 'explorer-index-test-'));
+
+process.env.STORAGE_BACKEND = 'sqlite';
+process.env.SQLITE_PATH = join(testDir, 'index.db');
+process.env.NODE_ENV = 'development';
+process.env.DISCORD_WEBHOOK_URL = 'http://localhost/discord';
+
+process.on('exit', () => rmSync(testDir, { recursive: true, force: true }));
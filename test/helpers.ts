@@ -0,0 +1,123 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { resolve } from 'path';
+import { getAllNetworks, indexFactStatements } from '../src/db.js';
+import { getStorage } from '../src/storage/index.js';
+import { createKupoStandIn, loadKupoExchanges } from '../src/util/kupo-fixtures.js';
+import { Network } from '../src/util/types.js';
+
+// Policy minting the facts of the fixtures in test/fixtures
+export const FIXTURE_POLICY_ID = 'f0ac0000000000000000000000000000000000000000000000000000';
+export const FIXTURE_ZERO_TIME = Date.UTC(2024, 0, 1);
+
+export function getFixturePath(name: string) {
+  return resolve(import.meta.dirname, 'fixtures', name);
+}
+
+// Replay a recorded Kupo fixture on a random local port, with any extra routes (e.g. the active feeds) in front of it
+export async function startKupoStandIn(fixture: string, routes?: (app: express.Express) => void) {
+  const exchanges = await loadKupoExchanges(getFixturePath(fixture));
+  const app = express();
+  routes?.(app);
+  app.use(createKupoStandIn(exchanges));
+  return startServer(app);
+}
+
+export async function startServer(app: express.Express) {
+  const server = await new Promise<Server>((resolve) => {
+    const server = app.listen(0, '127.0.0.1', () => resolve(server));
+  });
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(resolve));
+    }
+  };
+}
+
+// A Preview network with a single policy, reading its chain from the given chain index
+export function getTestNetwork(network: Partial<Network>): Network {
+  return {
+    id: 'preview',
+    name: 'Preview',
+    fact_statement_pointer: '',
+    script_token: '',
+    arweave_wallet_address: '',
+    arweave_system_identifier: '',
+    cardano_smart_contract_address: '',
+    chain_index_base_url: '',
+    chain_index_provider: 'kupo',
+    active_feeds_url: '',
+    block_explorer_base_url: '',
+    arweave_explorer_base_url: '',
+    last_block_hash: '',
+    last_checkpoint_slot: 0,
+    zero_time: FIXTURE_ZERO_TIME,
+    zero_slot: 0,
+    slot_length: 1000,
+    is_enabled: true,
+    is_archive_enabled: false,
+    primary_arweave_endpoint: '',
+    secondary_arweave_endpoint: '',
+    policies: [
+      {
+        id: 'fixture-policy',
+        network: 'preview',
+        policy_id: FIXTURE_POLICY_ID,
+        starting_slot: 86400,
+        starting_block_hash: '',
+        starting_date: new Date(FIXTURE_ZERO_TIME + 86400 * 1000)
+      }
+    ],
+    ...network
+  };
+}
+
+// Store the test network and its policy, with an empty index
+export async function createTestNetwork(network: Partial<Network>): Promise<Network> {
+  const storage = await getStorage();
+  // The storage assigns the IDs
+  const { policies, ...fields } = getTestNetwork(network);
+  const record = await storage.networks.create(fields);
+  for (const policy of policies) {
+    await storage.policies.create({ ...policy, network: record.id });
+  }
+
+  const created = (await getAllNetworks()).find((candidate) => candidate.id === record.id);
+  if (!created) throw new Error(`Failed to create network ${record.name}`);
+  return created;
+}
+
+type OnChainFact = Parameters<typeof indexFactStatements>[1][number];
+
+// The chain-derived fields of a fact of the test network's policy, validated at the given slot
+export function getTestFact(
+  network: Network,
+  id: string,
+  slot: number,
+  fields: Partial<OnChainFact> = {}
+): OnChainFact {
+  const date = new Date(network.zero_time + (slot - network.zero_slot) * 1000);
+  return {
+    network: network.id,
+    feed: '',
+    policy: network.policies[0].id,
+    fact_urn: `urn:orcfax:${id}`,
+    storage_urn: '',
+    transaction_id: `tx-${id}`,
+    block_hash: `block-${slot}`,
+    address: '',
+    slot,
+    output_index: 0,
+    statement_hash: `hash-${id}`,
+    value: 0.5,
+    value_inverse: 2,
+    publication_date: date,
+    validation_date: date,
+    publication_cost: 1,
+    storage_cost: 0,
+    ...fields
+  };
+}
@@ -0,0 +1,433 @@
+import './env.js';
+import assert from 'node:assert/strict';
+import cbor from 'cbor';
+import express from 'express';
+import { after, before, beforeEach, describe, mock, test } from 'node:test';
+import {
+  deleteIndex,
+  fetchFeeds,
+  getAllFactStatements,
+  getAllNetworks,
+  getFSPChange,
+  getIndexCounts,
+  getJobStates,
+  getOrCreateJobState,
+  replaceDiscrepancies
+} from '../src/db.js';
+import {
+  getMatchPolicy,
+  getOrCreateLatestPolicy,
+  populateIndex,
+  syncFactStatements,
+  verifyChainCheckpoint
+} from '../src/indexer.js';
+import { reindexRange } from '../src/reindex.js';
+import { fspChangesCounter } from '../src/util/metrics.js';
+import { getStorage } from '../src/storage/index.js';
+import { KupoMatch, Network } from '../src/util/types.js';
+import {
+  FIXTURE_POLICY_ID,
+  FIXTURE_ZERO_TIME,
+  createTestNetwork,
+  getTestNetwork,
+  startKupoStandIn,
+  startServer
+} from './helpers.js';
+
+const ACTIVE_FEEDS = {
+  meta: { description: 'Preview feeds', version: '1' },
+  feeds: [
+    {
+      pair: 'ADA/USD',
+      label: 'ADA-USD',
+      interval: 3600,
+      deviation: 1,
+      source: 'cex',
+      calculation: 'median',
+      status: 'showcase',
+      type: 'CER'
+    }
+  ]
+};
+
+// Replays test/fixtures/kupo-preview.jsonl: facts A and B in the first two days of the policy, fact C after the
+// populate checkpoint, a rollback of C through a checkpoint regression, a rollback of C re-indexed in another
+// block through a forked checkpoint, and a checkpoint regression that orphans no facts. Each step starts from the
+// state the previous one left.
+describe('indexing a replayed Preview chain', () => {
+  let standIn: Awaited<ReturnType<typeof startKupoStandIn>>;
+  let network: Network;
+
+  async function getStoredNetwork() {
+    return (await getAllNetworks()).find((candidate) => candidate.id === network.id);
+  }
+
+  async function getFactUrns() {
+    const facts = await getAllFactStatements(network);
+    return facts.sort((a, b) => a.slot - b.slot).map((fact) => `${fact.fact_urn}@${fact.slot}`);
+  }
+
+  // Apply a sync to the network like the sync cron does
+  async function sync() {
+    const queryState = await syncFactStatements(network);
+    network.last_block_hash = queryState.lastBlockHash;
+    network.last_checkpoint_slot = queryState.lastCheckpointSlot;
+  }
+
+  before(async () => {
+    process.env.ROLLBACK_WINDOW_SLOTS = '1000';
+    // The chain tip is at slot 216000, so the populate windows match the recorded requests
+    mock.timers.enable({ apis: ['Date'], now: FIXTURE_ZERO_TIME + 216000 * 1000 });
+
+    standIn = await startKupoStandIn('kupo-preview.jsonl', (app) => {
+      app.get('/feeds.json', (_req, res) => {
+        res.json(ACTIVE_FEEDS);
+      });
+    });
+    network = await createTestNetwork({
+      chain_index_base_url: standIn.url,
+      active_feeds_url: `${standIn.url}/feeds.json`
+    });
+  });
+
+  after(async () => {
+    mock.timers.reset();
+    await standIn.close();
+  });
+
+  test('populates the index a day at a time and stores the checkpoint', async () => {
+    await populateIndex(network);
+
+    const facts = await getAllFactStatements(network);
+    assert.deepEqual(facts.map((fact) => [fact.fact_urn, fact.value, fact.slot]).sort(), [
+      ['urn:orcfax:fact-A', 0.5, 100000],
+      ['urn:orcfax:fact-B', 0.51, 180000]
+    ]);
+
+    const populated = await getStoredNetwork();
+    assert.equal(populated?.last_checkpoint_slot, 215990);
+    assert.equal(populated?.last_block_hash, 'tip1');
+    network = populated!;
+  });
+
+  test('syncs the facts published after the checkpoint', async () => {
+    await sync();
+
+    assert.deepEqual(await getFactUrns(), [
+      'urn:orcfax:fact-A@100000',
+      'urn:orcfax:fact-B@180000',
+      'urn:orcfax:fact-C@216100'
+    ]);
+    assert.equal(network.last_checkpoint_slot, 216200);
+    assert.equal(network.last_block_hash, 'tip2');
+  });
+
+  test('keeps the checkpoint when the chain index answers 304 Not Modified', async () => {
+    await sync();
+
+    assert.equal(network.last_checkpoint_slot, 216200);
+    assert.equal(network.last_block_hash, 'tip2');
+    assert.equal(await verifyChainCheckpoint(network), null);
+  });
+
+  test('rolls back orphaned facts when the chain index checkpoint regresses', async () => {
+    await sync();
+
+    assert.deepEqual(await getFactUrns(), ['urn:orcfax:fact-A@100000', 'urn:orcfax:fact-B@180000']);
+    assert.equal(network.last_checkpoint_slot, 215050);
+    assert.equal((await getStoredNetwork())?.last_checkpoint_slot, 215050);
+
+    const storage = await getStorage();
+    const [rollback] = await storage.rollbacks.findAll({ filter: { network: network.id } });
+    assert.equal(rollback.previous_checkpoint_slot, 216200);
+    assert.equal(rollback.tip_slot, 216050);
+    assert.deepEqual(rollback.orphaned_fact_urns, ['urn:orcfax:fact-C']);
+  });
+
+  test('re-indexes a rolled back fact from its new block', async () => {
+    await sync();
+
+    assert.deepEqual((await getFactUrns()).slice(2), ['urn:orcfax:fact-C@216120']);
+    assert.equal(network.last_checkpoint_slot, 216300);
+  });
+
+  test('rolls back when the stored checkpoint is no longer on chain', async () => {
+    const rollback = await verifyChainCheckpoint(network);
+
+    assert.equal(rollback?.tip_block_hash, 'tip5');
+    assert.deepEqual(rollback?.orphaned_fact_urns, ['urn:orcfax:fact-C']);
+    assert.deepEqual(await getFactUrns(), ['urn:orcfax:fact-A@100000', 'urn:orcfax:fact-B@180000']);
+    assert.equal(network.last_checkpoint_slot, 215110);
+  });
+
+  test('only rewinds to the tip when a rollback orphans no facts', async () => {
+    await sync();
+
+    assert.deepEqual(await getFactUrns(), ['urn:orcfax:fact-A@100000', 'urn:orcfax:fact-B@180000']);
+    assert.equal(network.last_checkpoint_slot, 215100);
+    assert.equal(network.last_block_hash, 'tip6');
+
+    const storage = await getStorage();
+    const rollback = await storage.rollbacks.findFirst({ filter: { network: network.id, tip_block_hash: 'tip6' } });
+    assert.deepEqual(rollback?.orphaned_fact_urns, []);
+    assert.equal(rollback?.intersection_slot, 215100);
+  });
+
+  test('counts the matches and facts of a range on a dry run', async () => {
+    const summary = await reindexRange(network, { fromSlot: 86400, toSlot: 216000, dryRun: true });
+
+    assert.deepEqual(summary, {
+      matches: 2,
+      existing_facts: 2,
+      deleted_facts: 0,
+      indexed_facts: 0,
+      indexed_archives: 0
+    });
+  });
+
+  test('replaces the facts of a range, keeping the ones still on chain', async () => {
+    const storage = await getStorage();
+    const [factA] = (await getAllFactStatements(network)).filter((fact) => fact.fact_urn === 'urn:orcfax:fact-A');
+    // A fact in the range that the chain index no longer returns
+    await storage.facts.create({
+      ...factA,
+      fact_urn: 'urn:orcfax:fact-stale',
+      statement_hash: 'stale',
+      transaction_id: 'stale',
+      slot: 150000
+    });
+
+    const summary = await reindexRange(network, { fromSlot: 86400, toSlot: 172800, replace: true });
+
+    assert.deepEqual(summary, {
+      matches: 1,
+      existing_facts: 2,
+      deleted_facts: 1,
+      indexed_facts: 1,
+      indexed_archives: 0
+    });
+    assert.deepEqual(await getFactUrns(), ['urn:orcfax:fact-A@100000', 'urn:orcfax:fact-B@180000']);
+    const [reindexed] = (await getAllFactStatements(network)).filter((fact) => fact.fact_urn === 'urn:orcfax:fact-A');
+    assert.equal(reindexed.id, factA.id);
+    assert.equal((await getStoredNetwork())?.last_checkpoint_slot, 215100);
+  });
+
+  test('drops every index record of the network, keeping its policies', async () => {
+    const storage = await getStorage();
+    const [factA] = (await getAllFactStatements(network)).filter((fact) => fact.fact_urn === 'urn:orcfax:fact-A');
+    await getOrCreateJobState('archive-backfill', network);
+    await replaceDiscrepancies(factA, [
+      {
+        network: network.id,
+        fact: factA.id,
+        fact_urn: factA.fact_urn,
+        field: 'value',
+        archive_file: 'bag-info.txt',
+        on_chain_value: '1',
+        archive_value: '2',
+        detected_at: new Date()
+      }
+    ]);
+    assert.ok((await fetchFeeds(network)).length > 0);
+
+    await deleteIndex(network);
+
+    assert.equal((await getIndexCounts(network)).facts, 0);
+    assert.deepEqual(await fetchFeeds(network), []);
+    assert.deepEqual(await getJobStates(network), []);
+    assert.equal(await storage.discrepancies.count({ network: network.id }), 0);
+    assert.equal((await getStoredNetwork())?.policies.length, network.policies.length);
+  });
+});
+
+describe('attributing facts to their minting policy', () => {
+  const NEXT_POLICY_ID = 'f0ad0000000000000000000000000000000000000000000000000000';
+  const [fixturePolicy] = getTestNetwork({}).policies;
+  const network = getTestNetwork({
+    policies: [fixturePolicy, { ...fixturePolicy, id: 'next-policy', policy_id: NEXT_POLICY_ID, starting_slot: 200000 }]
+  });
+
+  function getMatch(policyId: string, slot: number): KupoMatch {
+    return {
+      transaction_index: 0,
+      transaction_id: 'tx',
+      output_index: 0,
+      address: 'addr_test',
+      value: { coins: 2000000, assets: { [`${policyId}.4f524346415846534e`]: 1 } },
+      datum_hash: null,
+      datum_type: 'inline',
+      script_hash: null,
+      created_at: { slot_no: slot, header_hash: 'block' },
+      spent_at: null
+    };
+  }
+
+  test('attributes a fact to the policy of its fact token', () => {
+    // Facts minted by an older policy after a newer one started still belong to the older one
+    assert.equal(getMatchPolicy(network, getMatch(FIXTURE_POLICY_ID, 210000)).id, 'fixture-policy');
+    assert.equal(getMatchPolicy(network, getMatch(NEXT_POLICY_ID, 210000)).id, 'next-policy');
+  });
+
+  test('falls back to the newest policy started at the slot for an unknown token', () => {
+    assert.equal(getMatchPolicy(network, getMatch('unknown', 100000)).id, 'fixture-policy');
+    assert.equal(getMatchPolicy(network, getMatch('unknown', 210000)).id, 'next-policy');
+  });
+});
+
+// A chain index without facts that records the first populate window requested for each policy
+describe('populating the index of several policies', () => {
+  const NEXT_POLICY_ID = 'f0af0000000000000000000000000000000000000000000000000000';
+  const firstWindows = new Map<string, string>();
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  before(async () => {
+    mock.timers.enable({ apis: ['Date'], now: FIXTURE_ZERO_TIME + 216000 * 1000 });
+
+    server = await startServer(
+      express()
+        .get('/matches/:pattern', (req, res) => {
+          const policyId = req.params.pattern.split('.')[0];
+          if (!firstWindows.has(policyId)) firstWindows.set(policyId, `${req.query.created_after}`);
+          res.set({ etag: 'tip', 'x-most-recent-checkpoint': '216000' });
+          res.json([]);
+        })
+        .get('/feeds.json', (_req, res) => {
+          res.json({ ...ACTIVE_FEEDS, feeds: [] });
+        })
+    );
+  });
+
+  after(async () => {
+    mock.timers.reset();
+    await server.close();
+  });
+
+  test('starts each policy at its own starting slot', async () => {
+    const [fixturePolicy] = getTestNetwork({}).policies;
+    const network = getTestNetwork({
+      id: 'multi-policy-preview',
+      chain_index_base_url: server.url,
+      active_feeds_url: `${server.url}/feeds.json`,
+      policies: [
+        { ...fixturePolicy, id: 'next-policy', policy_id: NEXT_POLICY_ID, starting_slot: 200000 },
+        fixturePolicy
+      ]
+    });
+
+    await populateIndex(network);
+
+    assert.deepEqual(Object.fromEntries(firstWindows), {
+      [FIXTURE_POLICY_ID]: '86400',
+      [NEXT_POLICY_ID]: '200000'
+    });
+  });
+});
+
+// A chain index whose Fact Statement Pointer datum points to a new policy, with the pointer UTxO, its block and the
+// facts of the new policy set by each test
+describe('checking Fact Statement Pointer changes', () => {
+  const NEW_POLICY_ID = 'f0ae0000000000000000000000000000000000000000000000000000';
+  let server: Awaited<ReturnType<typeof startServer>>;
+  let network: Network;
+  let pointerPolicyId: string;
+  let pointer: KupoMatch;
+  let isPointerBlockOnChain: boolean;
+  let hasMintedFacts: boolean;
+
+  function setPointer(transactionId: string, slot: number, policyId = NEW_POLICY_ID) {
+    pointerPolicyId = policyId;
+    pointer = {
+      transaction_index: 0,
+      transaction_id: transactionId,
+      output_index: 0,
+      address: 'addr_test',
+      value: { coins: 2000000, assets: {} },
+      datum_hash: 'pointer-datum',
+      datum_type: 'hash',
+      script_hash: null,
+      created_at: { slot_no: slot, header_hash: `block-${slot}` },
+      spent_at: null
+    };
+  }
+
+  before(async () => {
+    process.env.ROLLBACK_WINDOW_SLOTS = '1000';
+    mock.timers.enable({ apis: ['Date'], now: FIXTURE_ZERO_TIME + 216000 * 1000 });
+
+    server = await startServer(
+      express()
+        .get('/matches/*', (req, res) => {
+          if (req.query.policy_id === network.fact_statement_pointer) return res.json([pointer]);
+          res.set({ etag: 'tip', 'x-most-recent-checkpoint': '216000' });
+          res.json(hasMintedFacts ? [{ ...pointer, transaction_id: 'fact' }] : []);
+        })
+        .get('/datums/:hash', (_req, res) => {
+          res.json({ datum: cbor.encode(Buffer.from(pointerPolicyId, 'hex')).toString('hex') });
+        })
+        .get('/checkpoints/:slot', (_req, res) => {
+          res.json(isPointerBlockOnChain ? pointer.created_at : null);
+        })
+    );
+    network = getTestNetwork({
+      id: 'fsp-preview',
+      fact_statement_pointer: 'pointer-policy',
+      chain_index_base_url: server.url
+    });
+  });
+
+  beforeEach(() => {
+    isPointerBlockOnChain = true;
+    hasMintedFacts = true;
+  });
+
+  after(async () => {
+    mock.timers.reset();
+    await server.close();
+  });
+
+  async function assertRejected(reason: RegExp) {
+    const policy = await getOrCreateLatestPolicy(network);
+
+    assert.equal(policy.policy_id, FIXTURE_POLICY_ID);
+    const change = await getFSPChange(network, pointer);
+    assert.equal(change?.status, 'rejected');
+    assert.match(change?.rejection_reason ?? '', reason);
+  }
+
+  test('rejects a policy in the network seed ignore_policies', async () => {
+    setPointer('fsp-ignored', 215500, '900d528f3c1864a1376db1afc065c9b293a2235f39b00a674badf00d');
+    await assertRejected(/^Policy is in the Preview ignore_policies$/);
+  });
+
+  test('rejects a pointer UTxO created before the current policy started', async () => {
+    setPointer('fsp-stale', 86000);
+    await assertRejected(/^Pointer UTxO is stale/);
+  });
+
+  test('rejects a pointer UTxO whose block was rolled back', async () => {
+    setPointer('fsp-rolled-back', 215500);
+    isPointerBlockOnChain = false;
+    await assertRejected(/^Pointer UTxO block block-215500 was rolled back$/);
+  });
+
+  test("rejects a policy that hasn't minted any facts", async () => {
+    setPointer('fsp-unused', 215500);
+    hasMintedFacts = false;
+    await assertRejected(/^Policy has not minted any facts$/);
+  });
+
+  test('accepts a newer policy that has minted facts', async () => {
+    setPointer('fsp-accepted', 215500);
+
+    const policy = await getOrCreateLatestPolicy(network);
+
+    assert.equal(policy.policy_id, NEW_POLICY_ID);
+    assert.equal(policy.starting_slot, 215500);
+    const change = await getFSPChange(network, pointer);
+    assert.equal(change?.status, 'accepted');
+    assert.equal(change?.policy, policy.id);
+    const { values } = await fspChangesCounter.get();
+    const accepted = values.find((value) => value.labels.status === 'accepted');
+    assert.equal(accepted?.value, 1);
+  });
+});
@@ -0,0 +1,125 @@
+import { testDir } from './env.js';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { after, before, describe, test } from 'node:test';
+import { createKupoProvider } from '../src/kupo.js';
+import {
+  flushKupoRecordings,
+  getFixtureFilePath,
+  loadKupoExchanges,
+  normalizeKupoPath
+} from '../src/util/kupo-fixtures.js';
+import { KupoMatch, Network } from '../src/util/types.js';
+import { getFixturePath, getTestNetwork, startKupoStandIn } from './helpers.js';
+
+describe('replaying Kupo exchanges', () => {
+  let standIn: Awaited<ReturnType<typeof startKupoStandIn>>;
+  let network: Network;
+
+  before(async () => {
+    standIn = await startKupoStandIn('kupo-preview.jsonl');
+    network = getTestNetwork({ chain_index_base_url: standIn.url });
+  });
+
+  after(async () => {
+    await standIn.close();
+  });
+
+  test('serves the recorded matches with their checkpoint', async () => {
+    const response = await createKupoProvider(network).getMatches(network.policies[0], {
+      lastBlockHash: null,
+      lastCheckpointSlot: null,
+      queryParams: { created_before: '172800', created_after: '86400', order: 'oldest_first' }
+    });
+
+    assert.equal(response?.lastBlockHash, 'tip1');
+    assert.equal(response?.lastCheckpointSlot, 215990);
+    assert.deepEqual(
+      [...response!.transactions.values()].flat().map((match) => match.created_at.slot_no),
+      [100000]
+    );
+  });
+
+  test('replays responses to the same request in recorded order', async () => {
+    const provider = createKupoProvider(network);
+
+    const checkpoints = [];
+    for (let i = 0; i < 4; i++) {
+      const response = await provider.getMatches(network.policies[0], {
+        lastBlockHash: null,
+        lastCheckpointSlot: null,
+        queryParams: { order: 'oldest_first', created_after: '216200' }
+      });
+      checkpoints.push(response?.lastCheckpointSlot);
+    }
+    // The last response is repeated once the recording is exhausted
+    assert.deepEqual(checkpoints, [216200, 216050, 216050, 216050]);
+  });
+
+  test('answers 304 Not Modified when the etag matches', async () => {
+    const response = await createKupoProvider(network).getMatches(network.policies[0], {
+      lastBlockHash: 'tip2',
+      lastCheckpointSlot: 216200,
+      queryParams: { order: 'oldest_first', created_after: '215990' }
+    });
+    assert.equal(response, null);
+  });
+});
+
+describe('recording Kupo exchanges', () => {
+  const recordDir = join(testDir, 'recordings');
+  let standIn: Awaited<ReturnType<typeof startKupoStandIn>>;
+  let network: Network;
+
+  before(async () => {
+    process.env.KUPO_RECORD_DIR = recordDir;
+    standIn = await startKupoStandIn('kupo-preview.jsonl');
+    network = getTestNetwork({ chain_index_base_url: standIn.url });
+  });
+
+  after(async () => {
+    delete process.env.KUPO_RECORD_DIR;
+    await standIn.close();
+  });
+
+  async function getRecordedExchanges() {
+    await flushKupoRecordings();
+    return loadKupoExchanges(getFixtureFilePath(recordDir, network));
+  }
+
+  test('records a streamed response as the caller reads it', async () => {
+    const stream = await createKupoProvider(network).streamMatches(network.policies[0], {
+      lastBlockHash: null,
+      lastCheckpointSlot: null,
+      queryParams: { order: 'oldest_first', created_after: '86400', created_before: '172800' }
+    });
+    assert.ok(stream);
+
+    const matches: KupoMatch[] = [];
+    for await (const batch of stream.batches) {
+      for (const transaction of batch.values()) matches.push(...transaction);
+    }
+    assert.equal(matches.length, 1);
+
+    const [recorded] = await getRecordedExchanges();
+    const [replayed] = (await loadKupoExchanges(getFixturePath('kupo-preview.jsonl'))).filter(
+      (exchange) => normalizeKupoPath(exchange.path) === normalizeKupoPath(recorded.path)
+    );
+    assert.deepEqual(recorded, replayed);
+    assert.deepEqual(recorded.body, matches);
+  });
+
+  test('records a 304 Not Modified without a body', async () => {
+    const response = await createKupoProvider(network).getMatches(network.policies[0], {
+      lastBlockHash: 'tip2',
+      lastCheckpointSlot: 216200,
+      queryParams: { order: 'oldest_first', created_after: '216200' }
+    });
+    assert.equal(response, null);
+
+    const [, recorded] = await getRecordedExchanges();
+    assert.equal(recorded.status, 304);
+    assert.equal(recorded.if_none_match, 'tip2');
+    assert.equal(recorded.body, null);
+  });
+});
@@ -0,0 +1,76 @@
+import './env.js';
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+import { indexFactStatements } from '../src/db.js';
+import { getStorage } from '../src/storage/index.js';
+import { reconcileArchive } from '../src/util/reconciliation.js';
+import { BagInfo, BagInfoSchema, FactStatement, Network } from '../src/util/types.js';
+import { createTestNetwork, getTestFact } from './helpers.js';
+
+function getBagInfo(fact: FactStatement, fields: Record<string, string> = {}): BagInfo {
+  return BagInfoSchema.parse({
+    'Bag-Software-Agent': 'bagit.py',
+    'Bagging-Date': '2024-01-02',
+    'Epoch-Day': '1',
+    'Epoch-Hour': '3',
+    'Epoch-Month': '1',
+    'Epoch-Week': '1',
+    'Epoch-Year': '2024',
+    'Fact-Datum-Identifier': '00000000-0000-4000-8000-000000000000',
+    'Fact-Datum-URN': fact.fact_urn,
+    'Fact-Datum-Value': String(fact.value),
+    'Fact-Description': 'ADA-USD',
+    'Fact-Validation-Date': fact.validation_date.toISOString(),
+    'Feed-ID': 'CER/ADA-USD/3',
+    'Feed-Name': 'ADA-USD',
+    'Feed-Type': 'CER',
+    'Package-Version': '1',
+    'Packaging-Agent': 'orcfax-archivist',
+    'Payload-Oxum': '0.0',
+    'Source-Organization': 'Orcfax',
+    'System-Identifier': 'preview',
+    'System-Name': 'Orcfax',
+    'System-Version': '1.0.0',
+    'Unix-Time': String(fact.validation_date.getTime() / 1000),
+    ...fields
+  });
+}
+
+describe('reconciling archives with the chain', () => {
+  let network: Network;
+  let fact: FactStatement;
+
+  async function getDiscrepancies() {
+    const storage = await getStorage();
+    const discrepancies = await storage.discrepancies.findAll({ filter: { fact: fact.id } });
+    return discrepancies.map(({ field, on_chain_value, archive_value }) => [field, on_chain_value, archive_value]);
+  }
+
+  before(async () => {
+    network = await createTestNetwork({});
+    [fact] = (await indexFactStatements(network, [getTestFact(network, 'fact-A', 100000, { value: 0.5 })])).inserted;
+  });
+
+  test('records the bag-info.txt values that differ from the chain', async () => {
+    const bagInfo = getBagInfo(fact, {
+      'Fact-Datum-Value': '0.6',
+      'Fact-Datum-URN': 'urn:orcfax:fact-B',
+      'Fact-Validation-Date': '2024-01-03T00:00:00.000Z'
+    });
+
+    assert.equal(await reconcileArchive(network, fact, [], bagInfo), 3);
+    assert.deepEqual(await getDiscrepancies(), [
+      ['value', '0.5', '0.6'],
+      ['fact_urn', 'urn:orcfax:fact-A', 'urn:orcfax:fact-B'],
+      ['validation_date', fact.validation_date.toISOString(), '2024-01-03T00:00:00.000Z']
+    ]);
+  });
+
+  test('clears the discrepancies of an archive that now matches the chain', async () => {
+    // The archive value is the decimal of the on-chain fraction, so it may be rounded
+    const bagInfo = getBagInfo(fact, { 'Fact-Datum-Value': '0.5000000001' });
+
+    assert.equal(await reconcileArchive(network, fact, [], bagInfo), 0);
+    assert.deepEqual(await getDiscrepancies(), []);
+  });
+});
@@ -0,0 +1,211 @@
+import './env.js';
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+import { indexFactStatements } from '../src/db.js';
+import { getStorage } from '../src/storage/index.js';
+import { indexSourceObservations } from '../src/util/source-observations.js';
+import { ArchivedFile, FactStatement, Network, Source } from '../src/util/types.js';
+import { createTestNetwork, getTestFact } from './helpers.js';
+
+const SOURCE_NAMES = ['Binance', 'Kraken', 'Coinbase'];
+
+// A CEX validation file whose sources reported the given prices, in the order of SOURCE_NAMES
+function getValidationFile(fact: FactStatement, prices: number[]): ArchivedFile {
+  const content = {
+    '@context': 'https://schema.org',
+    type: 'MediaObject',
+    identifier: fact.fact_urn,
+    isBasedOn: { '@type': 'MediaObject', name: 'ADA-USD', identifier: 'urn:orcfax:node:1' },
+    contributor: {
+      '@type': 'Organization',
+      name: 'Test node',
+      locationCreated: {
+        address: { '@type': 'PostalAddress', addressLocality: 'Helsinki', addressRegion: 'FI', geo: '60.17,24.94' }
+      }
+    },
+    additionalType: [
+      {
+        '@type': 'Event',
+        description: 'data collection',
+        startDate: fact.validation_date.toISOString(),
+        recordedIn: {
+          '@type': 'CreativeWork',
+          description: { '@type': 'TextObject', comment: 'node data', sha256: '' },
+          hasPart: [
+            { '@type': 'CreativeWork', description: 'collecting timestamp', text: fact.validation_date.toISOString() },
+            { '@type': 'CreativeWork', description: 'data points for ADA-USD', text: prices.map(String) },
+            { '@type': 'CreativeWork', description: 'node identifier (uuid)', text: 'node-uuid' }
+          ]
+        }
+      },
+      {
+        '@type': 'Event',
+        description: 'selection of median value from collected node data',
+        startDate: fact.validation_date.toISOString(),
+        about: {
+          '@type': 'StatisticalVariable',
+          measurementMethod: 'median calculation of a minimum of three data sources from the selected collector node',
+          measurementTechnique: SOURCE_NAMES.map((name) => ({ '@type': 'PropertyValue', name, value: name })),
+          variableMeasured: {
+            '@type': 'Observation',
+            measurementMethod: 'median value',
+            value: fact.value,
+            valueReference: prices
+          }
+        }
+      }
+    ]
+  };
+  const contentText = JSON.stringify(content);
+  return {
+    name: `fact/data/validation-ADA-USD.json`,
+    fileName: 'validation-ADA-USD.json',
+    extension: 'JSON',
+    content,
+    size: contentText.length,
+    checksums: { md5: '', sha1: '', sha256: '', sha512: '' }
+  };
+}
+
+describe('recording source observations', () => {
+  let network: Network;
+  let sources: Source[];
+  let factA: FactStatement;
+  let factB: FactStatement;
+
+  async function getObservedValues(fact: FactStatement) {
+    const storage = await getStorage();
+    const observations = await storage.sourceObservations.findAll({ filter: { fact: fact.id } });
+    return observations.map((observation) => [observation.source_name, observation.value]);
+  }
+
+  async function getDailyStats() {
+    const storage = await getStorage();
+    const stats = await storage.sourceOutlierStats.findAll({ filter: { network: network.id } });
+    return sources.map((source) => {
+      const sourceStats = stats.filter((stat) => stat.source === source.id);
+      return sourceStats.map((stat) => [
+        source.name,
+        stat.day.toISOString(),
+        stat.observation_count,
+        stat.outlier_count,
+        Number(stat.mean_deviation.toFixed(6)),
+        Number(stat.max_deviation.toFixed(6))
+      ]);
+    });
+  }
+
+  before(async () => {
+    network = await createTestNetwork({});
+    const storage = await getStorage();
+    sources = [];
+    for (const name of SOURCE_NAMES) {
+      sources.push(
+        await storage.sources.create({
+          network: network.id,
+          recipient: '',
+          sender: '',
+          name,
+          type: 'CEX API',
+          status: 'active'
+        })
+      );
+    }
+    // Two facts validated on 2024-01-02
+    const { inserted } = await indexFactStatements(network, [
+      getTestFact(network, 'fact-A', 100000, { value: 0.5 }),
+      getTestFact(network, 'fact-B', 110000, { value: 0.5 })
+    ]);
+    [factA, factB] = inserted.sort((a, b) => a.slot - b.slot);
+  });
+
+  test('records the price each source reported for a fact', async () => {
+    const observations = await indexSourceObservations(
+      network,
+      factA,
+      [getValidationFile(factA, [0.5, 0.505, 0.6])],
+      sources
+    );
+
+    assert.deepEqual(
+      observations.map((observation) => [
+        observation.source === sources.find((source) => source.name === observation.source_name)?.id,
+        observation.source_name,
+        observation.feed_type,
+        observation.value,
+        observation.volume
+      ]),
+      [
+        [true, 'Binance', 'CEX', 0.5, 0],
+        [true, 'Kraken', 'CEX', 0.505, 0],
+        [true, 'Coinbase', 'CEX', 0.6, 0]
+      ]
+    );
+  });
+
+  test('flags the sources that deviate from the published value', async () => {
+    const storage = await getStorage();
+    const observations = await storage.sourceObservations.findAll({ filter: { fact: factA.id } });
+
+    assert.deepEqual(
+      observations.map((observation) => [
+        observation.source_name,
+        Number(observation.deviation.toFixed(6)),
+        observation.is_outlier
+      ]),
+      [
+        ['Binance', 0, false],
+        ['Kraken', 0.01, false],
+        ['Coinbase', 0.2, true]
+      ]
+    );
+  });
+
+  test('rolls up the observations of each source per day', async () => {
+    await indexSourceObservations(network, factB, [getValidationFile(factB, [0.5, 0.6, 0.5])], sources);
+
+    assert.deepEqual(await getDailyStats(), [
+      [['Binance', '2024-01-02T00:00:00.000Z', 2, 0, 0, 0]],
+      [['Kraken', '2024-01-02T00:00:00.000Z', 2, 1, 0.105, 0.2]],
+      [['Coinbase', '2024-01-02T00:00:00.000Z', 2, 1, 0.1, 0.2]]
+    ]);
+  });
+
+  test('replaces the observations of an archive indexed again', async () => {
+    await indexSourceObservations(network, factA, [getValidationFile(factA, [0.5, 0.5, 0.5])], sources);
+
+    assert.deepEqual(await getObservedValues(factA), [
+      ['Binance', 0.5],
+      ['Kraken', 0.5],
+      ['Coinbase', 0.5]
+    ]);
+    assert.deepEqual(await getDailyStats(), [
+      [['Binance', '2024-01-02T00:00:00.000Z', 2, 0, 0, 0]],
+      [['Kraken', '2024-01-02T00:00:00.000Z', 2, 1, 0.1, 0.2]],
+      [['Coinbase', '2024-01-02T00:00:00.000Z', 2, 0, 0, 0]]
+    ]);
+  });
+
+  test('rolls up the archives of a day indexed at the same time', async () => {
+    // Two facts validated on 2024-01-03, indexed concurrently like the archive backfill does
+    const { inserted } = await indexFactStatements(network, [
+      getTestFact(network, 'fact-C', 200000, { value: 0.5 }),
+      getTestFact(network, 'fact-D', 200100, { value: 0.5 })
+    ]);
+    await Promise.all(
+      inserted.map((fact) =>
+        indexSourceObservations(network, fact, [getValidationFile(fact, [0.5, 0.5, 0.6])], sources)
+      )
+    );
+
+    const dailyStats = await getDailyStats();
+    assert.deepEqual(
+      dailyStats.map((sourceStats) => sourceStats.filter(([, day]) => day === '2024-01-03T00:00:00.000Z')),
+      [
+        [['Binance', '2024-01-03T00:00:00.000Z', 2, 0, 0, 0]],
+        [['Kraken', '2024-01-03T00:00:00.000Z', 2, 0, 0, 0]],
+        [['Coinbase', '2024-01-03T00:00:00.000Z', 2, 2, 0.2, 0.2]]
+      ]
+    );
+  });
+});